@@ -0,0 +1,121 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { afterEach, beforeEach, describe, expect, it } from 'vitest'
+import { ConfigError, EnvironmentParser } from './config.js'
+
+let dir: string
+
+beforeEach(() => {
+  dir = mkdtempSync(join(tmpdir(), 'config-'))
+})
+
+afterEach(() => {
+  rmSync(dir, { recursive: true, force: true })
+})
+
+describe('EnvironmentParser', () => {
+  it('uses the defaults when nothing is set', () => {
+    const { config } = parse({})
+
+    expect(config.api.listenPort).toBe(10655)
+    expect(config.api.trustProxy).toBe(false)
+    expect(config.api.rateLimitAllowlist).toEqual([])
+    expect(config.rpc.addresses).toEqual(['127.0.0.1'])
+    expect(config.log).toEqual({ level: 'info', format: 'logfmt' })
+  })
+
+  it('parses the trust proxy setting', () => {
+    expect(parse({ API_TRUST_PROXY: 'true' }).config.api.trustProxy).toBe(true)
+    expect(parse({ API_TRUST_PROXY: '2' }).config.api.trustProxy).toBe(2)
+    expect(
+      parse({ API_TRUST_PROXY: 'loopback, 10.0.0.0/8' }).config.api.trustProxy,
+    ).toBe('loopback, 10.0.0.0/8')
+  })
+
+  it('rejects invalid settings, listing each of them', () => {
+    const parser = parse({
+      API_TRUST_PROXY: 'proxy.local',
+      API_RATE_LIMIT_ALLOWLIST: '10.0.0.1,not-an-ip',
+      API_LISTEN_PORT: '70000',
+    })
+
+    expect(() => parser.config).toThrow(ConfigError)
+    expect(getErrors(parser)).toEqual([
+      expect.stringMatching(/^API_LISTEN_PORT \(environment\): /),
+      expect.stringMatching(/^API_RATE_LIMIT_ALLOWLIST \(environment\): /),
+      expect.stringMatching(/^API_TRUST_PROXY \(environment\): /),
+    ])
+  })
+
+  it('gives the process environment precedence over the files', () => {
+    const configFile = join(dir, 'config.json')
+    writeFileSync(
+      configFile,
+      JSON.stringify({ api: { listenPort: 8000, workers: 4 } }),
+    )
+    writeFileSync(
+      join(dir, '.env'),
+      `CONFIG_FILE=${configFile}\nAPI_WORKERS=2\nLOG_LEVEL=debug\n`,
+    )
+
+    const { config } = parse({ LOG_LEVEL: 'warn', API_LISTEN_PORT: '' })
+
+    expect(config.api.listenPort).toBe(8000)
+    expect(config.api.workers).toBe(2)
+    expect(config.log.level).toBe('warn')
+  })
+
+  it('rejects unknown settings in the config file', () => {
+    const configFile = join(dir, 'config.json')
+    writeFileSync(configFile, JSON.stringify({ api: { port: 8000 } }))
+
+    const parser = parse({ CONFIG_FILE: configFile })
+
+    expect(getErrors(parser)).toEqual([
+      `${configFile}: unknown setting api.port`,
+    ])
+  })
+
+  it('reads secrets from files', () => {
+    const secretFile = join(dir, 'password')
+    writeFileSync(secretFile, 'hunter2\n')
+
+    expect(
+      parse({ JSONRPC_PASSWORD_FILE: secretFile }).config.rpc.password,
+    ).toBe('hunter2')
+    expect(
+      getErrors(
+        parse({ JSONRPC_PASSWORD_FILE: secretFile, JSONRPC_PASSWORD: 'x' }),
+      ),
+    ).toEqual([
+      'JSONRPC_PASSWORD (environment): set either JSONRPC_PASSWORD or JSONRPC_PASSWORD_FILE',
+    ])
+  })
+})
+
+/**
+ * Creates a parser reading the .env file of the test directory
+ * @param env - The process environment
+ * @returns The parser
+ */
+function parse(env: Record<string, string>) {
+  return new EnvironmentParser(join(dir, '.env'), env)
+}
+
+/**
+ * Gets the invalid settings reported by a parser
+ * @param parser - The parser
+ * @returns The description of each invalid setting
+ */
+function getErrors(parser: EnvironmentParser) {
+  try {
+    void parser.config
+  } catch (e) {
+    if (e instanceof ConfigError) {
+      return e.errors
+    }
+    throw e
+  }
+  return []
+}
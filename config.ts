@@ -1,73 +1,518 @@
+import { readFileSync } from 'node:fs'
+import { isIP } from 'node:net'
 import { config as dotenv } from 'dotenv'
-import { APIConfig, JSONRPCConfig, ChronikConfig } from './utils/types.js'
-import type { DotenvConfigOutput } from 'dotenv'
+import {
+  APIConfig,
+  JSONRPCConfig,
+  ChronikConfig,
+  NNGConfig,
+  GeoIPConfig,
+  GeoIPProviderName,
+  LogConfig,
+  LogFormat,
+  LogLevel,
+} from './utils/types.js'
+import {
+  API_DEFAULT_LISTEN_PORT,
+  ERR,
+  GEOIP_DEFAULT_DATABASE_PATH,
+  NNG_PUB_DEFAULT_SOCKET_PATH,
+  NNG_RPC_DEFAULT_SOCKET_PATH,
+} from './utils/constants.js'
 
 /**
- * Main configuration interface combining API, RPC, and Chronik settings
+ * Main configuration interface combining API, RPC, Chronik, NNG, GeoIP and logging settings
  */
 interface Config {
   api: APIConfig
   rpc: JSONRPCConfig
   chronik: ChronikConfig
+  nng: NNGConfig
+  geoip: GeoIPConfig
+  log: LogConfig
 }
 
 /**
- * Parses environment variables from a .env file and provides typed configuration
- * @class EnvironmentParser
+ * Definition of a single configuration setting
  */
-class EnvironmentParser {
+interface Setting<T> {
+  /** Environment variable the setting is read from */
+  env: string
+  /** Value used when the setting is not set anywhere */
+  default: T
+  /** Parses a raw value, throwing an Error describing why it is invalid */
+  parse: (value: string) => T
+  /** Whether the value may be read from the file named by `<env>_FILE`, e.g. a Docker secret */
+  secret?: boolean
+}
+
+/**
+ * Definition of every configuration setting, by section
+ */
+type ConfigSchema = {
+  [S in keyof Config]: { [K in keyof Config[S]]: Setting<Config[S][K]> }
+}
+
+/**
+ * Source of raw setting values, in increasing order of precedence
+ */
+interface ConfigSource {
+  /** Name of the source, used in error messages */
+  name: string
   /**
-   * The parsed dotenv configuration output
-   * @protected
+   * Gets the raw value of a setting from this source
+   * @returns The raw value, or undefined if the source does not set it
+   * @throws {Error} If the value cannot be read
    */
-  protected env?: DotenvConfigOutput
+  get: (section: string, key: string, setting: Setting<unknown>) => unknown
+}
+
+/**
+ * Raised when the configuration is invalid, listing every invalid setting
+ * @extends {Error}
+ */
+export class ConfigError extends Error {
+  /** Description of each invalid setting */
+  public readonly errors: string[]
+
+  constructor(errors: string[]) {
+    super(`invalid configuration:\n${errors.map(e => `  - ${e}`).join('\n')}`)
+    this.name = 'ConfigError'
+    this.errors = errors
+  }
+}
+
+const GEOIP_PROVIDERS: GeoIPProviderName[] = ['remote', 'mmdb']
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error']
+const LOG_FORMATS: LogFormat[] = ['logfmt', 'json']
+/** Subnet presets accepted by the Express `trust proxy` setting */
+const TRUST_PROXY_PRESETS = ['loopback', 'linklocal', 'uniquelocal']
+
+const CONFIG_SCHEMA: ConfigSchema = {
+  api: {
+    listenAddress: {
+      env: 'API_LISTEN_ADDRESS',
+      default: '0.0.0.0',
+      parse: String,
+    },
+    listenPort: {
+      env: 'API_LISTEN_PORT',
+      default: API_DEFAULT_LISTEN_PORT,
+      parse: integer(1, 65_535),
+    },
+    rateLimitWindowMinutes: {
+      env: 'API_RATE_LIMIT_WINDOW_MINUTES',
+      default: 1,
+      parse: integer(1),
+    },
+    rateLimitMaxRequests: {
+      env: 'API_RATE_LIMIT_MAX_REQUESTS',
+      default: 1000,
+      parse: integer(1),
+    },
+    rateLimitMaxRequestsAuthenticated: {
+      env: 'API_RATE_LIMIT_MAX_REQUESTS_AUTHENTICATED',
+      default: 5000,
+      parse: integer(1),
+    },
+    rateLimitAllowlist: {
+      env: 'API_RATE_LIMIT_ALLOWLIST',
+      default: [],
+      parse: value => toList(value).map(ipOrCIDR),
+    },
+    trustProxy: {
+      env: 'API_TRUST_PROXY',
+      default: false,
+      parse: toTrustProxy,
+    },
+    workers: {
+      env: 'API_WORKERS',
+      default: 1,
+      parse: integer(0, 256),
+    },
+    shutdownTimeoutSeconds: {
+      env: 'API_SHUTDOWN_TIMEOUT_SECONDS',
+      default: 10,
+      parse: integer(0),
+    },
+    readyMaxBlockLag: {
+      env: 'API_READY_MAX_BLOCK_LAG',
+      default: 2,
+      parse: integer(0),
+    },
+  },
+  rpc: {
+    addresses: {
+      env: 'JSONRPC_ADDRESS',
+      default: ['127.0.0.1'],
+      parse: list(hostPort),
+    },
+    port: { env: 'JSONRPC_PORT', default: 10604, parse: integer(1, 65_535) },
+    user: { env: 'JSONRPC_USERNAME', default: 'lotus', parse: String },
+    password: {
+      env: 'JSONRPC_PASSWORD',
+      default: 'lotus',
+      parse: String,
+      secret: true,
+    },
+  },
+  chronik: {
+    urls: {
+      env: 'CHRONIK_URL',
+      default: ['https://chronik.lotusia.org'],
+      parse: list(url(['http:', 'https:'])),
+    },
+  },
+  nng: {
+    pubSocketPath: {
+      env: 'NNG_PUB_SOCKET_PATH',
+      default: NNG_PUB_DEFAULT_SOCKET_PATH,
+      parse: String,
+    },
+    rpcSocketPath: {
+      env: 'NNG_RPC_SOCKET_PATH',
+      default: NNG_RPC_DEFAULT_SOCKET_PATH,
+      parse: String,
+    },
+  },
+  geoip: {
+    provider: {
+      env: 'GEOIP_PROVIDER',
+      default: 'remote',
+      parse: oneOf(GEOIP_PROVIDERS),
+    },
+    databasePath: {
+      env: 'GEOIP_DATABASE_PATH',
+      default: GEOIP_DEFAULT_DATABASE_PATH,
+      parse: String,
+    },
+    timeoutMs: { env: 'GEOIP_TIMEOUT_MS', default: 2000, parse: integer(1) },
+  },
+  log: {
+    level: { env: 'LOG_LEVEL', default: 'info', parse: oneOf(LOG_LEVELS) },
+    format: { env: 'LOG_FORMAT', default: 'logfmt', parse: oneOf(LOG_FORMATS) },
+  },
+}
+
+/**
+ * Parses the configuration from, in increasing order of precedence: the
+ * defaults, an optional JSON config file (`CONFIG_FILE`), the .env file and
+ * the process environment
+ *
+ * The config file mirrors the Config sections, e.g.
+ * `{ "api": { "listenPort": 10655 } }`. Secret settings may instead be read
+ * from the file named by `<env>_FILE`, e.g. `JSONRPC_PASSWORD_FILE`. Empty
+ * environment variables are treated as not set.
+ * @class EnvironmentParser
+ */
+export class EnvironmentParser {
+  /** Sources of raw setting values, in increasing order of precedence */
+  protected sources: ConfigSource[]
+  /** Errors found while reading the sources */
+  protected errors: string[] = []
 
   /**
    * Creates a new EnvironmentParser instance
    * @param path - Optional path to the .env file, defaults to '.env'
-   * @param env - Optional pre-parsed dotenv configuration
+   * @param processEnv - Optional process environment, defaults to `process.env`
    */
-  constructor(path?: string, env?: DotenvConfigOutput) {
-    this.env = env ?? dotenv({ path: path ?? '.env' })
+  constructor(path = '.env', processEnv = process.env) {
+    // read the .env file separately so the process environment takes
+    // precedence, then expose its values to libraries reading the environment,
+    // e.g. Prisma's DATABASE_URL
+    const dotEnv: Record<string, string> = {}
+    dotenv({ path, processEnv: dotEnv, quiet: true })
+    const env = { ...processEnv }
+    for (const [key, value] of Object.entries(dotEnv)) {
+      processEnv[key] ??= value
+    }
+
+    const configFile = env.CONFIG_FILE || dotEnv.CONFIG_FILE
+    this.sources = [
+      ...(configFile ? [this.fileSource(configFile)] : []),
+      this.envSource(path, dotEnv),
+      this.envSource('environment', env),
+    ]
   }
 
   /**
    * Gets the parsed configuration object
-   * @returns The parsed Config object containing api, rpc, and chronik settings
+   * @returns The parsed Config object containing api, rpc, chronik, nng, geoip and log settings
+   * @throws {ConfigError} If any setting is invalid
    */
   get config(): Config {
     return this.parseEnvironment()
   }
 
   /**
-   * Parses environment variables into a typed Config object
+   * Parses every setting into a typed Config object, from the source with
+   * the highest precedence that sets it
    * @private
-   * @returns Config object with api, rpc, and chronik configuration
+   * @returns Config object with api, rpc, chronik, nng, geoip and log configuration
    */
   private parseEnvironment(): Config {
+    const errors = [...this.errors]
+    const config: Record<string, Record<string, unknown>> = {}
+    for (const [section, settings] of Object.entries(CONFIG_SCHEMA)) {
+      config[section] = {}
+      for (const [key, setting] of Object.entries(
+        settings as Record<string, Setting<unknown>>,
+      )) {
+        let value = setting.default
+        for (const source of this.sources) {
+          try {
+            const raw = source.get(section, key, setting)
+            if (raw !== undefined) {
+              value = setting.parse(toRawValue(raw))
+            }
+          } catch (e) {
+            errors.push(
+              `${setting.env} (${source.name}): ${(e as Error).message}`,
+            )
+          }
+        }
+        config[section][key] = value
+      }
+    }
+    if (errors.length > 0) {
+      throw new ConfigError(errors)
+    }
+    return config as unknown as Config
+  }
+
+  /**
+   * Creates a source reading settings from environment variables
+   * @param name - Name of the source
+   * @param env - The environment variables
+   * @returns The config source
+   */
+  private envSource(
+    name: string,
+    env: Record<string, string | undefined>,
+  ): ConfigSource {
     return {
-      api: {
-        listenAddress: this.env?.parsed?.API_LISTEN_ADDRESS || '0.0.0.0',
-        listenPort: parseInt(this.env?.parsed?.API_LISTEN_PORT || '3000'),
-        rateLimitWindowMinutes: parseInt(
-          this.env?.parsed?.API_RATE_LIMIT_WINDOW_MINUTES || '1',
-        ),
-        rateLimitMaxRequests: parseInt(
-          this.env?.parsed?.API_RATE_LIMIT_MAX_REQUESTS || '1000',
-        ),
-      },
-      rpc: {
-        address: this.env?.parsed?.JSONRPC_ADDRESS || '127.0.0.1',
-        port: parseInt(this.env?.parsed?.JSONRPC_PORT || '10604'),
-        user: this.env?.parsed?.JSONRPC_USERNAME || 'lotus',
-        password: this.env?.parsed?.JSONRPC_PASSWORD || 'lotus',
-      },
-      chronik: {
-        url: this.env?.parsed?.CHRONIK_URL || 'https://chronik.lotusia.org',
+      name,
+      get: (_section, _key, setting) => {
+        const file = setting.secret ? env[`${setting.env}_FILE`] : undefined
+        if (!file) {
+          return env[setting.env] || undefined
+        }
+        if (env[setting.env]) {
+          throw new Error(`set either ${setting.env} or ${setting.env}_FILE`)
+        }
+        return readSecret(file)
       },
     }
   }
+
+  /**
+   * Creates a source reading settings from a JSON config file, rejecting
+   * unknown sections and settings
+   * @param path - Path to the config file
+   * @returns The config source
+   */
+  private fileSource(path: string): ConfigSource {
+    let file: Record<string, Record<string, unknown>> = {}
+    try {
+      file = JSON.parse(readFileSync(path, 'utf8'))
+    } catch (e) {
+      this.errors.push(
+        `CONFIG_FILE: cannot read ${path}: ${(e as Error).message}`,
+      )
+    }
+    for (const [section, settings] of Object.entries(file)) {
+      for (const key of Object.keys(settings ?? {})) {
+        if (!Object.hasOwn(CONFIG_SCHEMA[section as keyof Config] ?? {}, key)) {
+          this.errors.push(`${path}: unknown setting ${section}.${key}`)
+        }
+      }
+    }
+    return { name: path, get: (section, key) => file[section]?.[key] }
+  }
+}
+
+/**
+ * Reads a secret setting from a file, ignoring a trailing newline
+ * @param path - Path to the file holding the secret
+ * @returns The secret
+ */
+function readSecret(path: string): string {
+  try {
+    return readFileSync(path, 'utf8').replace(/\r?\n$/, '')
+  } catch (e) {
+    throw new Error(`cannot read secret file ${path}: ${(e as Error).message}`)
+  }
+}
+
+/**
+ * Converts a value from a config source to the string form of environment
+ * variables, e.g. arrays to comma-separated lists
+ * @param value - The raw value
+ * @returns The value as a string
+ */
+function toRawValue(value: unknown): string {
+  return Array.isArray(value) ? value.join(',') : String(value)
+}
+
+/**
+ * Creates a parser of integers within a range
+ * @param min - The min value
+ * @param max - Optional max value
+ * @returns The integer parser
+ */
+function integer(min: number, max = Number.MAX_SAFE_INTEGER) {
+  return (value: string): number => {
+    const num = Number(value)
+    if (!/^-?\d+$/.test(value.trim()) || num < min || num > max) {
+      throw new Error(
+        max === Number.MAX_SAFE_INTEGER
+          ? `must be an integer of at least ${min} (got "${value}")`
+          : `must be an integer between ${min} and ${max} (got "${value}")`,
+      )
+    }
+    return num
+  }
+}
+
+/**
+ * Creates a parser of URLs with one of the allowed protocols
+ * @param protocols - The allowed protocols, e.g. `https:`
+ * @returns The URL parser
+ */
+function url(protocols: string[]) {
+  return (value: string): string => {
+    if (!URL.canParse(value)) {
+      throw new Error(`must be a URL (got "${value}")`)
+    }
+    if (!protocols.includes(new URL(value).protocol)) {
+      throw new Error(
+        `must be a URL with protocol ${protocols.join(' or ')} (got "${value}")`,
+      )
+    }
+    return value
+  }
+}
+
+/**
+ * Parses a hostname or IP address with an optional port, e.g. `node:10604`
+ * @param value - The raw value
+ * @returns The host
+ */
+function hostPort(value: string): string {
+  if (!URL.canParse(`http://${value}`) || /[/?#@]/.test(value)) {
+    throw new Error(`must be a host with an optional port (got "${value}")`)
+  }
+  return value
+}
+
+/**
+ * Parses an IPv4 or IPv6 address with an optional CIDR prefix length, e.g.
+ * `10.0.0.0/8`
+ * @param value - The raw value
+ * @returns The address or CIDR
+ */
+function ipOrCIDR(value: string): string {
+  const [address = '', prefix, ...rest] = value.split('/')
+  const version = isIP(address)
+  const maxPrefix = version === 4 ? 32 : 128
+  if (
+    version === 0 ||
+    rest.length > 0 ||
+    (prefix !== undefined &&
+      (!/^\d+$/.test(prefix) || Number(prefix) > maxPrefix))
+  ) {
+    throw new Error(`must be an IP address or CIDR (got "${value}")`)
+  }
+  return value
+}
+
+/**
+ * Creates a parser of comma-separated lists of at least one value
+ * @param parse - Parses each value of the list
+ * @returns The list parser
+ */
+function list<T>(parse: (value: string) => T) {
+  return (value: string): T[] => {
+    const values = toList(value)
+    if (values.length === 0) {
+      throw new Error('must list at least one value')
+    }
+    return values.map(parse)
+  }
+}
+
+/**
+ * Creates a parser of values that must be one of the allowed values
+ * @param allowed - The allowed values
+ * @returns The parser
+ */
+function oneOf<T extends string>(allowed: T[]) {
+  return (value: string): T => {
+    if (!allowed.includes(value as T)) {
+      throw new Error(`must be one of ${allowed.join(', ')} (got "${value}")`)
+    }
+    return value as T
+  }
+}
+
+/**
+ * Splits a comma-separated environment variable into its trimmed values
+ * @param value - The environment variable value
+ * @returns The non-empty values
+ */
+function toList(value: string | undefined): string[] {
+  return (value ?? '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parses the Express `trust proxy` setting: true/false, a number of hops, or
+ * a comma-separated list of trusted proxy addresses, CIDRs or presets such as
+ * `loopback`
+ * @param value - The environment variable value
+ * @returns The `trust proxy` setting (defaults to false)
+ */
+function toTrustProxy(value: string | undefined): boolean | number | string {
+  if (!value || value === 'false') {
+    return false
+  }
+  if (value === 'true') {
+    return true
+  }
+  if (/^\d+$/.test(value)) {
+    return integer(0, 255)(value)
+  }
+  for (const entry of toList(value)) {
+    if (!TRUST_PROXY_PRESETS.includes(entry)) {
+      try {
+        ipOrCIDR(entry)
+      } catch {
+        throw new Error(
+          `must be true, false, a number of hops, or a list of addresses, CIDRs or ${TRUST_PROXY_PRESETS.join(', ')} (got "${entry}")`,
+        )
+      }
+    }
+  }
+  return value
+}
+
+/**
+ * Parses the configuration, refusing to start if any setting is invalid
+ * @returns The parsed configuration
+ */
+function loadConfig(): Config {
+  try {
+    return new EnvironmentParser().config
+  } catch (e) {
+    if (!(e instanceof ConfigError)) {
+      throw e
+    }
+    // the logger is configured from this config, so write to stderr directly
+    process.stderr.write(`${e.message}\n`)
+    process.exit(ERR.CONFIG_INVALID)
+  }
 }
 
-const env = new EnvironmentParser()
-export default env.config
+export default loadConfig()
@@ -1,28 +1,161 @@
+import cluster from 'node:cluster'
 import { API } from './lib/api/index.js'
-import { explorer } from './lib/api/routes/index.js'
+import {
+  explorer,
+  extension,
+  health,
+  metrics,
+  rank,
+  stats,
+  stream,
+  tx,
+  wallet,
+} from './lib/api/routes/index.js'
+import { Supervisor } from './lib/cluster/index.js'
+import { Indexer, IndexerError } from './lib/indexer/index.js'
+import { Charts } from './lib/indexer/charts.js'
+import { mempool } from './lib/indexer/mempool.js'
+import { PeerSnapshots } from './lib/indexer/peers.js'
+import { closeModules } from './lib/modules/index.js'
+import { connectNNG } from './lib/modules/nng.js'
+import { ERR } from './utils/constants.js'
+import { logger } from './utils/logger.js'
 import config from './config.js'
+import type { ClusterMessage } from './lib/cluster/index.js'
 
 // Configure API routers
 const routers = [
+  health,
+  metrics,
   explorer,
+  extension,
+  rank,
+  stats,
+  stream,
+  tx,
+  wallet,
   // add more routers here
 ]
 
-// Initialize and start the API server
-// TODO: set up cluster mode for production readiness
-const api = new API(routers, config.api)
-api.start(config.api)
+// In cluster mode the primary supervises the API workers and runs the block
+// indexer and mempool tracker, so blocks are only written to the database and
+// the mempool only synced once. Each worker serves the API and follows the
+// mempool tracked by the primary. With a single worker configured, one
+// standalone process does everything.
+const standalone = config.api.workers === 1
+const shutdownTimeout = config.api.shutdownTimeoutSeconds * 1000
+let api: API | undefined
+let indexer: Indexer | undefined
+let peers: PeerSnapshots | undefined
+let supervisor: Supervisor | undefined
+let shuttingDown = false
+
+if (!standalone && cluster.isPrimary) {
+  supervisor = new Supervisor(config.api.workers, shutdownTimeout)
+  supervisor.start()
+}
+
+if (standalone || cluster.isWorker) {
+  // Initialize and start the API server
+  api = new API(routers, config.api)
+  api.start(config.api)
+}
+
+if (standalone || cluster.isPrimary) {
+  // Initialize the block indexer, chart series and peer snapshot jobs
+  indexer = new Indexer()
+  peers = new PeerSnapshots()
+  const charts = new Charts()
+  indexer.on('error', onFatalError)
+  // recompute the chart series whenever blocks are indexed; rewinds
+  // recompute them in the rewind transaction
+  indexer.on('indexed', () => charts.update())
+}
+
+start().catch(onFatalError)
 
 // Register shutdown handlers for graceful termination
-process.on('SIGINT', shutdown)
-process.on('SIGTERM', shutdown)
+process.on('SIGINT', () => shutdown())
+process.on('SIGTERM', () => shutdown())
+process.on('message', (msg: ClusterMessage) => {
+  if (msg?.channel === 'cluster' && msg.type === 'shutdown') {
+    shutdown()
+  }
+})
+
+/**
+ * Connects to the NNG pub socket, then starts the mempool tracker, or follows
+ * the primary's in cluster workers, and the peer snapshots and block indexer
+ * (indexing process)
+ */
+async function start() {
+  try {
+    await connectNNG()
+  } catch (e) {
+    throw new IndexerError(ERR.NNG_CONNECT, (e as Error).message)
+  }
+  if (cluster.isWorker) {
+    mempool.follow()
+  } else {
+    if (supervisor) {
+      mempool.share()
+    }
+    await mempool.start()
+  }
+  if (indexer) {
+    peers?.start()
+    await indexer.start()
+  }
+}
 
 /**
- * Gracefully shuts down the API server
- * Called when SIGINT or SIGTERM signals are received
+ * Logs a fatal error and shuts down with its exit code
+ * @param error - The error raised by the mempool tracker or indexer
  */
-function shutdown() {
-  console.log('Shutting down API server...')
-  api.stop()
-  process.exit(0)
+function onFatalError(error: IndexerError) {
+  const code = error.code ?? ERR.UNHANDLED_EXCEPTION
+  logger.error('fatal error', {
+    name: error.name,
+    code,
+    error: error.message,
+  })
+  shutdown(code)
+}
+
+/**
+ * Gracefully shuts down the workers, API server, mempool tracker and indexer,
+ * then closes the NNG sockets and database connection
+ * Called when SIGINT or SIGTERM signals are received, when the primary asks a
+ * worker to shut down, or on a fatal error
+ * @param code - Optional process exit code (defaults to 0)
+ */
+async function shutdown(code = 0) {
+  if (shuttingDown) {
+    return
+  }
+  shuttingDown = true
+
+  if (supervisor) {
+    logger.info('draining cluster workers')
+    await supervisor.stop()
+  }
+  if (api) {
+    logger.info('shutting down API server')
+    const drained = await api.stop(shutdownTimeout)
+    if (!drained) {
+      logger.warn('in-flight requests did not complete before the timeout')
+      code ||= ERR.API_SHUTDOWN_TIMEOUT
+    }
+  }
+  mempool.stop()
+  indexer?.stop()
+  peers?.stop()
+
+  try {
+    await closeModules()
+  } catch (e) {
+    logger.error('closing backends failed', { error: (e as Error).message })
+    code ||= ERR.SHUTDOWN_BACKENDS
+  }
+  process.exit(code)
 }
@@ -0,0 +1,96 @@
+import { SharedCache } from '../cluster/index.js'
+import { prisma } from '../modules/index.js'
+import { responseCache } from './cache.js'
+import { asyncHandler, UnauthorizedError } from './errors.js'
+import {
+  API_AUTH_CACHE_ENTRY_TTL,
+  API_AUTH_CACHE_MAX_ENTRIES,
+  API_AUTH_CACHE_TTL,
+  EXT_INSTANCE_ID_DIFFICULTY,
+} from '../../utils/constants.js'
+import type { Response } from 'express'
+
+/** Header carrying the instance ID of a registered browser extension */
+export const AUTH_HEADER = 'X-Instance-Id'
+
+/**
+ * Registered instance IDs, mapped to the block height their entry expires at,
+ * so each instance is only looked up in the database once per TTL
+ */
+const AUTH_CACHE = new SharedCache<number>('auth', {
+  ttl: API_AUTH_CACHE_TTL,
+  maxEntries: API_AUTH_CACHE_MAX_ENTRIES,
+})
+
+/**
+ * Format of instance IDs: a SHA-256 hex digest with the leading zeros of
+ * their proof-of-work (see `isValidInstanceId()`)
+ */
+const INSTANCE_ID_PATTERN = new RegExp(
+  `^0{${EXT_INSTANCE_ID_DIFFICULTY}}[0-9a-f]{${64 - EXT_INSTANCE_ID_DIFFICULTY}}$`,
+)
+
+/**
+ * Middleware that authenticates requests carrying a registered extension
+ * instance ID in the `X-Instance-Id` header, storing it in `res.locals`
+ *
+ * Requests without the header continue anonymously; requests with an unknown
+ * instance ID are rejected. Requests with the header are rate limited per IP
+ * before this middleware (see `createAuthRateLimiter()`), so unknown instance
+ * IDs cannot be used to query the database without limit.
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction to continue handling the request
+ */
+export const authenticate = asyncHandler(async (req, res, next) => {
+  const instanceId = req.get(AUTH_HEADER)
+  if (instanceId === undefined) {
+    return next()
+  }
+  if (!(await isRegistered(instanceId))) {
+    throw new UnauthorizedError('instance is not registered', { instanceId })
+  }
+  res.locals.instanceId = instanceId
+  next()
+})
+
+/**
+ * Gets the authenticated extension instance ID of a request
+ * @param res Express Response object of the request
+ * @returns The instance ID, or undefined for anonymous requests
+ */
+export function getInstanceId(res: Response): string | undefined {
+  return res.locals.instanceId as string | undefined
+}
+
+/**
+ * Checks whether an instance ID is registered, caching registered IDs for
+ * `API_AUTH_CACHE_ENTRY_TTL` blocks
+ *
+ * IDs that are not even formatted like an instance ID are rejected without a
+ * database lookup.
+ * @param instanceId - The instance ID
+ * @returns True if the instance ID is registered
+ */
+async function isRegistered(instanceId: string): Promise<boolean> {
+  if (!INSTANCE_ID_PATTERN.test(instanceId)) {
+    return false
+  }
+  const tipHeight = responseCache.tipHeight ?? 0
+  const expiresAt = await AUTH_CACHE.get(instanceId)
+  if (expiresAt !== undefined) {
+    if (tipHeight < expiresAt) {
+      return true
+    }
+    await AUTH_CACHE.delete(instanceId)
+  }
+  const instance = await prisma.extensionInstance.findUnique({
+    where: { id: instanceId },
+    select: { id: true },
+  })
+  if (!instance) {
+    return false
+  }
+  await AUTH_CACHE.set(instanceId, tipHeight + API_AUTH_CACHE_ENTRY_TTL)
+  return true
+}
@@ -0,0 +1,169 @@
+import { nngClient } from '../modules/index.js'
+import { NNGTopic } from '../modules/nng.js'
+import { cacheRequestsTotal } from '../metrics/index.js'
+import {
+  API_CACHE_MAX_BYTES,
+  API_CACHE_MIN_CONFIRMATIONS,
+  API_CACHE_TIP_ENTRY_TTL,
+  API_CACHE_TIP_MAX_AGE,
+} from '../../utils/constants.js'
+import type { Response } from 'express'
+import type { NNGBlockMessage } from '../modules/nng.js'
+
+/**
+ * Cached value, along with its size and whether it depends on the chain tip
+ */
+interface CacheEntry {
+  /** The cached value */
+  value: unknown
+  /** Approximate size of the value, in bytes of JSON */
+  size: number
+  /** Whether the value stays valid when the chain tip moves */
+  immutable: boolean
+  /** Time (ms since epoch) a tip-dependent value expires */
+  expiresAt: number
+}
+
+/**
+ * In-process LRU cache for upstream responses, bounded by the total size of
+ * its entries
+ *
+ * Immutable entries, e.g. deeply-confirmed blocks, are only evicted when the
+ * cache is full. Tip-dependent entries, e.g. the latest blocks page, are also
+ * dropped whenever a new block arrives, and expire after
+ * `API_CACHE_TIP_ENTRY_TTL` should a block notification be missed. The cache
+ * follows the tip height from the NNG `blkconnected` topic.
+ */
+export class ResponseCache {
+  /** Cached entries, in least to most recently used order */
+  private entries = new Map<string, CacheEntry>()
+  /** Total size of the cached entries, in bytes */
+  private size = 0
+  /** Max total size of the cached entries, in bytes */
+  private maxSize: number
+  /** Height of the chain tip, once a block has been received */
+  public tipHeight: number | null = null
+
+  /**
+   * Creates a new ResponseCache instance
+   * @param maxSize - Max total size of the cached entries, in bytes
+   */
+  constructor(maxSize: number) {
+    this.maxSize = maxSize
+  }
+
+  /**
+   * Gets a cached value, marking it as most recently used
+   * @param key - The cache key
+   * @returns The cached value, or undefined if not cached
+   */
+  public get<T>(key: string): T | undefined {
+    let entry = this.entries.get(key)
+    if (entry && !entry.immutable && entry.expiresAt <= Date.now()) {
+      this.delete(key)
+      entry = undefined
+    }
+    cacheRequestsTotal.inc({
+      cache: 'response',
+      result: entry ? 'hit' : 'miss',
+    })
+    if (!entry) {
+      return undefined
+    }
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value as T
+  }
+
+  /**
+   * Caches a value, evicting the least recently used entries if full
+   * @param key - The cache key
+   * @param value - The value to cache; must be serializable as JSON
+   * @param immutable - Whether the value stays valid when the chain tip moves
+   */
+  public set(key: string, value: unknown, immutable: boolean) {
+    const size = Buffer.byteLength(JSON.stringify(value) ?? '')
+    if (size > this.maxSize) {
+      return
+    }
+    this.delete(key)
+    this.entries.set(key, {
+      value,
+      size,
+      immutable,
+      expiresAt: Date.now() + API_CACHE_TIP_ENTRY_TTL,
+    })
+    this.size += size
+    for (const [oldest, entry] of this.entries) {
+      if (this.size <= this.maxSize) {
+        break
+      }
+      this.entries.delete(oldest)
+      this.size -= entry.size
+    }
+  }
+
+  /**
+   * Removes a cached value
+   * @param key - The cache key
+   */
+  public delete(key: string) {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.entries.delete(key)
+      this.size -= entry.size
+    }
+  }
+
+  /**
+   * Whether a block is buried deep enough that a reorg is not expected to
+   * replace it, so responses derived from it can be cached indefinitely
+   * @param height - Height of the block
+   * @returns True if the block has at least `API_CACHE_MIN_CONFIRMATIONS`
+   */
+  public isSettled(height: number): boolean {
+    return (
+      this.tipHeight !== null &&
+      this.tipHeight - height + 1 >= API_CACHE_MIN_CONFIRMATIONS
+    )
+  }
+
+  /**
+   * Drops every tip-dependent entry and records the new tip height
+   * @param height - Height of the new chain tip
+   */
+  public onBlock(height: number) {
+    this.tipHeight = height
+    for (const [key, entry] of this.entries) {
+      if (!entry.immutable) {
+        this.delete(key)
+      }
+    }
+  }
+}
+
+export const responseCache = new ResponseCache(API_CACHE_MAX_BYTES)
+
+// drop tip-dependent responses on every new block, including reorgs, where
+// the new block is at or below the previous tip height
+nngClient.on(NNGTopic.BLOCK_CONNECTED, (msg: NNGBlockMessage) =>
+  responseCache.onBlock(msg.height),
+)
+
+/**
+ * Sets `Cache-Control` for a response that never changes, so CDNs and
+ * browsers can cache it indefinitely
+ * @param res Express Response object
+ */
+export function setImmutable(res: Response) {
+  res.set('Cache-Control', 'public, max-age=31536000, immutable')
+}
+
+/**
+ * Sets `Cache-Control` for a response that changes when a new block arrives,
+ * so it is only cached briefly and revalidated with its `ETag`
+ * @param res Express Response object
+ */
+export function setTipDependent(res: Response) {
+  res.set('Cache-Control', `public, max-age=${API_CACHE_TIP_MAX_AGE}`)
+}
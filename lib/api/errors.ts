@@ -0,0 +1,303 @@
+import { getRequestLogger, HTTP, sendJSON } from './index.js'
+import type { Request, Response, NextFunction, RequestHandler } from 'express'
+
+/**
+ * Machine-readable error codes returned in API error responses
+ */
+export type APIErrorCode =
+  | 'VALIDATION_ERROR'
+  | 'UNAUTHORIZED'
+  | 'NOT_FOUND'
+  | 'TX_REJECTED'
+  | 'RATE_LIMITED'
+  | 'SERVICE_UNAVAILABLE'
+  | 'UPSTREAM_ERROR'
+  | 'UPSTREAM_UNAVAILABLE'
+  | 'UPSTREAM_TIMEOUT'
+  | 'INTERNAL_ERROR'
+
+/**
+ * Base class for errors that map to an API error response
+ * @extends {Error}
+ */
+export class APIError extends Error {
+  /** HTTP status code of the response */
+  public readonly status: HTTP
+  /** Machine-readable error code */
+  public readonly code: APIErrorCode
+  /** Additional fields to include in the response body */
+  public readonly details?: Record<string, unknown>
+
+  constructor(
+    status: HTTP,
+    code: APIErrorCode,
+    message: string,
+    details?: Record<string, unknown>,
+  ) {
+    super(message)
+    this.name = this.constructor.name
+    this.status = status
+    this.code = code
+    if (details) {
+      this.details = details
+    }
+  }
+}
+
+/**
+ * The request parameters, query or body are invalid
+ */
+export class ValidationError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.BAD_REQUEST, 'VALIDATION_ERROR', message, details)
+  }
+}
+
+/**
+ * The request credentials are missing or not recognized
+ */
+export class UnauthorizedError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.UNAUTHORIZED, 'UNAUTHORIZED', message, details)
+  }
+}
+
+/**
+ * The requested resource does not exist
+ */
+export class NotFoundError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.NOT_FOUND, 'NOT_FOUND', message, details)
+  }
+}
+
+/**
+ * A transaction was rejected by validation or by the node's mempool policy
+ */
+export class TxRejectedError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.UNPROCESSABLE_ENTITY, 'TX_REJECTED', message, details)
+  }
+}
+
+/**
+ * The client sent too many requests in the rate limit window
+ */
+export class RateLimitError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.TOO_MANY_REQUESTS, 'RATE_LIMITED', message, details)
+  }
+}
+
+/**
+ * The API is at capacity and cannot serve the request right now
+ */
+export class ServiceUnavailableError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.SERVICE_UNAVAILABLE, 'SERVICE_UNAVAILABLE', message, details)
+  }
+}
+
+/**
+ * An upstream service (Chronik, RPC, GeoIP) returned an unexpected error
+ */
+export class UpstreamError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.BAD_GATEWAY, 'UPSTREAM_ERROR', message, details)
+  }
+}
+
+/**
+ * An upstream service could not be reached
+ */
+export class UpstreamUnavailableError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.SERVICE_UNAVAILABLE, 'UPSTREAM_UNAVAILABLE', message, details)
+  }
+}
+
+/**
+ * An upstream service did not respond in time
+ */
+export class UpstreamTimeoutError extends APIError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(HTTP.GATEWAY_TIMEOUT, 'UPSTREAM_TIMEOUT', message, details)
+  }
+}
+
+/** Network error codes raised when an upstream service cannot be reached */
+const UNAVAILABLE_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'EPIPE',
+  // every endpoint of the upstream service has an open circuit breaker
+  'ECIRCUITOPEN',
+]
+/** Network error codes raised when an upstream service times out */
+const TIMEOUT_ERROR_CODES = [
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'UND_ERR_CONNECT_TIMEOUT',
+]
+/** JSON-RPC error codes for invalid parameters (RPC_INVALID_PARAMETER, RPC_DESERIALIZATION_ERROR) */
+const RPC_INVALID_PARAMETER_CODES = [-8, -22]
+/** JSON-RPC error code for a missing tx or block (RPC_INVALID_ADDRESS_OR_KEY) */
+const RPC_NOT_FOUND_CODE = -5
+/** JSON-RPC error codes for rejected transactions (RPC_VERIFY_ERROR, RPC_VERIFY_REJECTED, RPC_VERIFY_ALREADY_IN_CHAIN) */
+const RPC_TX_REJECTED_CODES = [-25, -26, -27]
+
+/**
+ * Maps any error thrown while handling a request to an APIError
+ *
+ * Errors from Chronik (`Failed getting <path> (<errorCode>): <msg>`) and the
+ * JSON-RPC client (`JSON-RPC error: <msg> (code: <code>)`) are classified by
+ * their error codes; network errors are classified by their `code`, which
+ * `fetch` reports on the error's `cause`.
+ * @param error - The error thrown
+ * @returns The corresponding APIError
+ */
+export function toAPIError(error: unknown): APIError {
+  if (error instanceof APIError) {
+    return error
+  }
+  if (!(error instanceof Error)) {
+    return new APIError(
+      HTTP.INTERNAL_SERVER_ERROR,
+      'INTERNAL_ERROR',
+      String(error),
+    )
+  }
+
+  // body-parser errors carry their own 4xx status
+  const status = (error as Error & { status?: number }).status
+  if (status && status >= 400 && status < 500) {
+    return new ValidationError(error.message)
+  }
+
+  const code =
+    (error as NodeJS.ErrnoException).code ??
+    ((error.cause as NodeJS.ErrnoException | undefined)?.code || undefined)
+  if (
+    error.name === 'TimeoutError' ||
+    (code && TIMEOUT_ERROR_CODES.includes(code))
+  ) {
+    return new UpstreamTimeoutError('upstream service timed out')
+  }
+  if (
+    (code && UNAVAILABLE_ERROR_CODES.includes(code)) ||
+    error.message === 'fetch failed' ||
+    error.message.startsWith('Error connecting to known Chronik')
+  ) {
+    return new UpstreamUnavailableError('upstream service is unavailable')
+  }
+
+  const chronikError = error.message.match(/^Failed getting \S+ \(([^)]+)\)/)
+  if (chronikError) {
+    const errorCode = chronikError[1]!
+    if (errorCode.includes('not-found')) {
+      return new NotFoundError(error.message)
+    }
+    if (errorCode.startsWith('invalid') || errorCode.startsWith('bad')) {
+      return new ValidationError(error.message)
+    }
+    return new UpstreamError(error.message)
+  }
+
+  const rpcError = error.message.match(/^JSON-RPC error: .* \(code: (-?\d+)\)$/)
+  if (rpcError) {
+    const rpcCode = Number(rpcError[1])
+    if (rpcCode === RPC_NOT_FOUND_CODE) {
+      return new NotFoundError(error.message)
+    }
+    if (RPC_INVALID_PARAMETER_CODES.includes(rpcCode)) {
+      return new ValidationError(error.message)
+    }
+    if (RPC_TX_REJECTED_CODES.includes(rpcCode)) {
+      return new TxRejectedError(
+        error.message.replace(/^JSON-RPC error: (.*) \(code: -?\d+\)$/, '$1'),
+        { rpcCode },
+      )
+    }
+    return new UpstreamError(error.message)
+  }
+
+  // the RPC node returned a non-JSON response, e.g. on authentication failure
+  if (error instanceof SyntaxError) {
+    return new UpstreamError('upstream service returned an invalid response')
+  }
+
+  return new APIError(
+    HTTP.INTERNAL_SERVER_ERROR,
+    'INTERNAL_ERROR',
+    error.message,
+  )
+}
+
+/**
+ * Wraps an async route handler so any error it throws is mapped to an
+ * APIError and passed to the error-handling middleware
+ * @param handler - The async route handler
+ * @returns The wrapped route handler
+ */
+export function asyncHandler<P = Record<string, string>>(
+  handler: (req: Request<P>, res: Response, next: NextFunction) => unknown,
+): RequestHandler<P> {
+  return async (req, res, next) => {
+    try {
+      await handler(req, res, next)
+    } catch (e) {
+      next(toAPIError(e))
+    }
+  }
+}
+
+/**
+ * Express error-handling middleware, sending every error as a JSON body with
+ * an error message and code
+ * @param error - The error passed to `next()` or thrown by a route
+ * @param req - Express Request object
+ * @param res - Express Response object
+ * @param next - Express NextFunction, used if the response has already started
+ */
+export function sendErrorJSON(
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction,
+) {
+  if (res.headersSent) {
+    return next(error)
+  }
+  const apiError = toAPIError(error)
+  if (apiError.status >= HTTP.INTERNAL_SERVER_ERROR) {
+    getRequestLogger(res).error('request failed', {
+      code: apiError.code,
+      method: req.method,
+      path: req.originalUrl,
+      error: (error as Error)?.message ?? String(error),
+    })
+  }
+  sendJSON(
+    res,
+    { error: apiError.message, code: apiError.code, ...apiError.details },
+    apiError.status,
+  )
+}
+
+/**
+ * Express middleware for requests that did not match any route
+ * @param req - Express Request object
+ * @param _res - Express Response object
+ * @param next - Express NextFunction to pass the error to
+ */
+export function sendNotFoundJSON(
+  req: Request,
+  _res: Response,
+  next: NextFunction,
+) {
+  next(new NotFoundError(`route not found: ${req.method} ${req.path}`))
+}
@@ -1,4 +1,5 @@
 import { Server } from 'node:http'
+import { randomUUID } from 'node:crypto'
 import { EventEmitter } from 'node:events'
 import express, {
   Express,
@@ -8,8 +9,18 @@ import express, {
   NextFunction,
   json,
 } from 'express'
-import rateLimit from 'express-rate-limit'
+import { httpRequestDuration, httpRequestsTotal } from '../metrics/index.js'
+import { authenticate } from './auth.js'
+import { sendErrorJSON, sendNotFoundJSON } from './errors.js'
+import { buildOpenAPIDocument, DOCS_HTML } from './openapi.js'
+import { createAuthRateLimiter, createRateLimiters } from './ratelimit.js'
+import { recordRoute } from './schema.js'
+import { API_BASE_PATH, API_BODY_MAX_SIZE } from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
 import { APIConfig } from '../../utils/types.js'
+import type { Logger } from '../../utils/logger.js'
+
+const log = logger.child({ component: 'api' })
 
 /**
  * Configuration for a router with its URI path
@@ -19,6 +30,8 @@ interface ConfiguredRouter {
   uri: string
   /** The Express router instance */
   router: Router
+  /** Optional hook called when the API is stopping, e.g. to end long-lived responses */
+  stop?: () => void
 }
 
 /**
@@ -36,10 +49,20 @@ export enum HTTP {
   PAYMENT_REQUIRED = 402,
   FORBIDDEN = 403,
   NOT_FOUND = 404,
+  UNPROCESSABLE_ENTITY = 422,
+  TOO_MANY_REQUESTS = 429,
+  /** Server errors */
+  INTERNAL_SERVER_ERROR = 500,
+  BAD_GATEWAY = 502,
+  SERVICE_UNAVAILABLE = 503,
+  GATEWAY_TIMEOUT = 504,
 }
 
 /**
  * API class for handling HTTP requests and responses
+ *
+ * Emits `stopping` when it stops accepting connections and `drained` once
+ * every in-flight request has completed.
  * @extends {EventEmitter}
  */
 export class API extends EventEmitter {
@@ -49,6 +72,12 @@ export class API extends EventEmitter {
   private router: Router
   /** HTTP server instance */
   private server!: Server
+  /** Configured routers, kept to call their stop hooks */
+  private routers: ConfiguredRouter[]
+  /** Responses that have not finished yet */
+  private activeResponses = new Set<Response>()
+  /** Whether the API is stopping */
+  private stopping = false
 
   /**
    * Creates a new API instance
@@ -56,30 +85,39 @@ export class API extends EventEmitter {
    */
   constructor(routers: ConfiguredRouter[], config: APIConfig) {
     super()
+    this.routers = routers
     this.app = express()
-    this.app.use(json())
-
-    // Add API rate limiting config
-    this.app.use(
-      rateLimit({
-        windowMs: config.rateLimitWindowMinutes * 60 * 1000,
-        limit: config.rateLimitMaxRequests, // `max` was renamed to `limit` in express-rate-limit v7
-        standardHeaders: true,
-        legacyHeaders: false,
-        skip: () => {
-          // return "false" to NOT skip rate limiting quota for each client
-          return false
-        },
-        handler: sendRateLimitExceededJSON,
-      }),
-    )
+    // derive the client IP from X-Forwarded-For when behind trusted proxies
+    this.app.set('trust proxy', config.trustProxy)
+    this.app.use(json({ limit: API_BODY_MAX_SIZE }))
+    this.app.use((req, res, next) => this.trackResponse(req, res, next))
+    this.app.use(logRequest)
+    this.app.use(recordMetrics)
+
+    // Rate limit per route policy, after authenticating extension instances,
+    // which is itself rate limited per IP
+    this.app.use(createAuthRateLimiter(config))
+    this.app.use(authenticate)
+    this.app.use(createRateLimiters(config))
 
     this.router = Router()
+    // Serve the OpenAPI document of the routes and a page rendering it
+    const document = buildOpenAPIDocument(routers)
+    this.router.get('/openapi.json', recordRoute, (_req, res) =>
+      sendJSON(res, document),
+    )
+    this.router.get('/docs', recordRoute, (_req, res) => {
+      res.type('html').send(DOCS_HTML)
+    })
     for (const { uri, router } of routers) {
-      console.log(`Registering router ${uri}`)
+      log.debug('registering router', { uri })
       this.router.use(uri, router)
     }
-    this.app.use('/api/v1', this.router)
+    this.app.use(API_BASE_PATH, this.router)
+
+    // Send unmatched routes and all errors as JSON
+    this.app.use(sendNotFoundJSON)
+    this.app.use(sendErrorJSON)
   }
 
   /**
@@ -91,22 +129,146 @@ export class API extends EventEmitter {
       config.listenPort,
       config.listenAddress,
       () => {
-        console.log(
-          `API server running on ${config.listenAddress}:${config.listenPort}`,
-        )
+        log.info('listening', {
+          address: config.listenAddress,
+          port: config.listenPort,
+        })
       },
     )
   }
 
   /**
-   * Stops the API server and closes all connections
+   * Stops accepting connections and waits for in-flight requests to complete,
+   * closing any connections still open after the timeout
+   * @param timeout - Max time (ms) to wait for in-flight requests
+   * @returns Whether every in-flight request completed before the timeout
    */
-  public stop(): void {
-    if (this.server) {
-      this.server.closeAllConnections()
-      this.server.close()
+  public async stop(timeout: number): Promise<boolean> {
+    if (!this.server || this.stopping) {
+      return true
     }
+    this.stopping = true
+    this.emit('stopping')
+    for (const { stop } of this.routers) {
+      stop?.()
+    }
+
+    this.server.close()
+    this.server.closeIdleConnections()
+    for (const res of this.activeResponses) {
+      // close keep-alive connections once the response is sent
+      if (!res.headersSent) {
+        res.set('Connection', 'close')
+      }
+    }
+
+    const drained = await new Promise<boolean>(resolve => {
+      if (this.activeResponses.size === 0) {
+        return resolve(true)
+      }
+      const timer = setTimeout(() => resolve(false), timeout)
+      this.once('drained', () => {
+        clearTimeout(timer)
+        resolve(true)
+      })
+    })
+    this.server.closeAllConnections()
+    return drained
   }
+
+  /**
+   * Middleware that tracks each response until it is finished, so in-flight
+   * requests can be drained when stopping
+   * @param _req Express Request object
+   * @param res Express Response object
+   * @param next Express NextFunction to continue handling the request
+   */
+  private trackResponse(_req: Request, res: Response, next: NextFunction) {
+    this.activeResponses.add(res)
+    if (this.stopping) {
+      res.set('Connection', 'close')
+    }
+    res.once('close', () => {
+      this.activeResponses.delete(res)
+      if (this.stopping && this.activeResponses.size === 0) {
+        this.emit('drained')
+      }
+    })
+    next()
+  }
+}
+
+/**
+ * Middleware that assigns each request an ID, attaches a logger carrying it
+ * to `res.locals`, and writes an access log line once the response is closed
+ *
+ * The ID is taken from the `X-Request-Id` header when valid, so requests can
+ * be correlated with a proxy's logs, and echoed in the response header.
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction to continue handling the request
+ */
+function logRequest(req: Request, res: Response, next: NextFunction) {
+  const start = performance.now()
+  const header = req.get('X-Request-Id')
+  const requestId =
+    header && /^[\w-]{1,64}$/.test(header) ? header : randomUUID()
+  res.set('X-Request-Id', requestId)
+  res.locals.log = log.child({ requestId })
+  res.once('close', () => {
+    getRequestLogger(res).info('request', {
+      method: req.method,
+      route: getRoute(res),
+      path: req.originalUrl,
+      status: res.statusCode,
+      ip: req.ip,
+      duration: Math.round(performance.now() - start),
+    })
+  })
+  next()
+}
+
+/**
+ * Middleware that records the count and latency of each request once its
+ * response is finished, labelled by the matched route
+ * @param req Express Request object
+ * @param res Express Response object
+ * @param next Express NextFunction to continue handling the request
+ */
+function recordMetrics(req: Request, res: Response, next: NextFunction) {
+  const start = performance.now()
+  res.once('finish', () => {
+    const labels = {
+      method: req.method,
+      route: getRoute(res),
+      status: res.statusCode,
+    }
+    httpRequestsTotal.inc(labels)
+    httpRequestDuration.observe(labels, (performance.now() - start) / 1000)
+  })
+  next()
+}
+
+/**
+ * Gets the route pattern matched by a request, rather than its URL, to bound
+ * the values used in metric labels and logs
+ *
+ * The route is recorded by `recordRoute` when the request is matched, since
+ * `req.baseUrl` and `req.route` are reset once the request leaves the router.
+ * @param res Express Response object
+ * @returns The matched route pattern, or 'unmatched', e.g. for 404s
+ */
+function getRoute(res: Response): string {
+  return (res.locals.route as string | undefined) ?? 'unmatched'
+}
+
+/**
+ * Gets the logger of a request, carrying its request ID
+ * @param res Express Response object of the request
+ * @returns The request logger, or the API logger outside of a request
+ */
+export function getRequestLogger(res: Response): Logger {
+  return (res.locals.log as Logger | undefined) ?? log
 }
 
 /**
@@ -121,14 +283,3 @@ export function sendJSON(res: Response, data: object, statusCode?: HTTP) {
     .status(statusCode ?? HTTP.OK)
     .json(data)
 }
-
-/**
- * Sends a rate limit JSON error response to the client
- * @param req Express Request object (unused but required for express-rate-limit handler signature)
- * @param res Express Response object to send the error response
- */
-export function sendRateLimitExceededJSON(_req: Request, res: Response) {
-  res.contentType('application/json').status(HTTP.FORBIDDEN).json({
-    error: '401 Too many requests, please try again later.',
-  })
-}
@@ -0,0 +1,170 @@
+import { AUTH_HEADER } from './auth.js'
+import { API_BASE_PATH, API_DOCS_SCRIPT_URL } from '../../utils/constants.js'
+import type { Router } from 'express'
+import type { DocumentedHandler, JSONSchema, Shape } from './schema.js'
+
+/**
+ * OpenAPI 3 document describing the API routes
+ */
+export interface OpenAPIDocument {
+  openapi: string
+  info: { title: string; version: string; description: string }
+  servers: { url: string }[]
+  tags: { name: string }[]
+  paths: Record<string, Record<string, JSONSchema>>
+  components: Record<string, Record<string, JSONSchema>>
+}
+
+/** Reference to the schema of every error response body */
+const ERROR_RESPONSE: JSONSchema = {
+  description: 'Error',
+  content: {
+    'application/json': { schema: { $ref: '#/components/schemas/Error' } },
+  },
+}
+
+/**
+ * Builds the OpenAPI document of the routes registered with a route schema
+ * (see `route()`); routes without a schema are left out
+ * @param routers - The routers with the URI paths they are mounted at
+ * @returns The OpenAPI document
+ */
+export function buildOpenAPIDocument(
+  routers: { uri: string; router: Router }[],
+): OpenAPIDocument {
+  const paths: OpenAPIDocument['paths'] = {}
+  const tags: OpenAPIDocument['tags'] = []
+  for (const { uri, router } of routers) {
+    const tag = uri.replace(/^\//, '') || 'health'
+    for (const { route } of router.stack) {
+      if (!route) {
+        continue
+      }
+      for (const { handle, method } of route.stack) {
+        const { schema } = handle as Partial<DocumentedHandler>
+        if (!schema) {
+          continue
+        }
+        // Express `:param` placeholders are `{param}` in OpenAPI paths
+        const path = `${uri === '/' ? '' : uri}${route.path}`.replace(
+          /:(\w+)/g,
+          '{$1}',
+        )
+        const parameters = [
+          ...toParameters('path', schema.params),
+          ...toParameters('query', schema.query),
+        ]
+        const hasInput = parameters.length > 0 || !!schema.body
+        paths[path] ??= {}
+        paths[path][method] = {
+          tags: [tag],
+          summary: schema.summary,
+          description: schema.description,
+          parameters: parameters.length > 0 ? parameters : undefined,
+          requestBody: schema.body && {
+            required: !schema.body.optional,
+            content: { 'application/json': { schema: schema.body.json } },
+          },
+          responses: {
+            200: {
+              description: 'Success',
+              content: {
+                [schema.contentType ?? 'application/json']: {
+                  schema: schema.response?.json ?? {},
+                },
+              },
+            },
+            ...(hasInput && { 400: ERROR_RESPONSE }),
+            default: ERROR_RESPONSE,
+          },
+        }
+      }
+      if (!tags.some(({ name }) => name === tag)) {
+        tags.push({ name: tag })
+      }
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: {
+      title: 'Lotus Backend API',
+      version: '1.0.0',
+      description:
+        `Clients may authenticate with the \`${AUTH_HEADER}\` header of a ` +
+        'registered extension instance for a higher rate limit. Errors are ' +
+        'returned with a message and a machine-readable code; invalid ' +
+        'requests are rejected with a `VALIDATION_ERROR` listing every ' +
+        'invalid value in `errors`.',
+    },
+    servers: [{ url: API_BASE_PATH }],
+    tags,
+    paths,
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: {
+            error: { type: 'string', description: 'Error message' },
+            code: {
+              type: 'string',
+              description: 'Machine-readable error code',
+              example: 'VALIDATION_ERROR',
+            },
+            errors: {
+              type: 'array',
+              description: 'Invalid values of a VALIDATION_ERROR',
+              items: {
+                type: 'object',
+                properties: {
+                  in: { type: 'string', enum: ['path', 'query', 'body'] },
+                  name: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
+          },
+          required: ['error', 'code'],
+        },
+      },
+    },
+  }
+}
+
+/**
+ * Converts the path or query parameter schemas of a route to OpenAPI
+ * parameters
+ * @param location - Where the parameters are read from
+ * @param shape - The parameter schemas
+ * @returns The OpenAPI parameters
+ */
+function toParameters(location: 'path' | 'query', shape?: Shape) {
+  return Object.entries(shape ?? {}).map(([name, schema]) => {
+    const { description, ...json } = schema.json
+    return {
+      name,
+      in: location,
+      required: location === 'path' || !schema.optional,
+      description,
+      schema: json,
+      // arrays are passed as comma-separated lists, e.g. `a=1,2`
+      ...(json.type === 'array' && { style: 'form', explode: false }),
+    }
+  })
+}
+
+/**
+ * HTML of the API docs page, rendering the OpenAPI document with Redoc
+ */
+export const DOCS_HTML = `<!doctype html>
+<html>
+  <head>
+    <meta charset="utf-8" />
+    <title>Lotus Backend API</title>
+  </head>
+  <body>
+    <redoc spec-url="${API_BASE_PATH}/openapi.json"></redoc>
+    <script src="${API_DOCS_SCRIPT_URL}"></script>
+  </body>
+</html>
+`
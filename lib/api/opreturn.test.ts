@@ -0,0 +1,207 @@
+import { describe, expect, it } from 'vitest'
+import { toScriptRANK } from 'xpi-ts/lib/rank'
+import { decodeOpReturn, registerOpReturnDecoder } from './opreturn.js'
+
+/** Token ID used by the token outputs, as shown by explorers */
+const TOKEN_ID = 'ab'.repeat(31) + 'cd'
+
+describe('decodeOpReturn', () => {
+  it('decodes RANK votes', () => {
+    const vote = toScriptRANK('negative', 'twitter', 'lotusproject')
+    const postVote = toScriptRANK(
+      'positive',
+      'twitter',
+      'lotusproject',
+      '1234567890123456789',
+    )
+
+    expect(decodeOpReturn(vote)).toEqual({
+      protocol: 'RANK',
+      sentiment: 'negative',
+      platform: 'twitter',
+      profileId: 'lotusproject',
+    })
+    expect(decodeOpReturn(postVote)).toEqual({
+      protocol: 'RANK',
+      sentiment: 'positive',
+      platform: 'twitter',
+      profileId: 'lotusproject',
+      postId: '1234567890123456789',
+    })
+  })
+
+  it('returns invalid RANK votes raw', () => {
+    // platform 0xff is unknown
+    const script = toScript(utf8('RANK'), hex('01'), hex('ff'), utf8('abc'))
+
+    expect(decodeOpReturn(script)).toEqual({
+      protocol: 'raw',
+      pushes: ['52414e4b', '01', 'ff', '616263'],
+      text: null,
+    })
+  })
+
+  it('decodes memo.cash actions', () => {
+    const txHash = Buffer.from(TOKEN_ID, 'hex').reverse()
+
+    expect(decodeOpReturn(toScript(hex('6d02'), utf8('hello')))).toEqual({
+      protocol: 'memo',
+      action: 'post',
+      text: 'hello',
+    })
+    expect(decodeOpReturn(toScript(hex('6d03'), txHash, utf8('hi')))).toEqual({
+      protocol: 'memo',
+      action: 'reply',
+      text: 'hi',
+      txid: TOKEN_ID,
+    })
+    expect(
+      decodeOpReturn(toScript(hex('6d0c'), utf8('lotus'), utf8('gm'))),
+    ).toEqual({
+      protocol: 'memo',
+      action: 'topic-post',
+      text: 'gm',
+      topic: 'lotus',
+    })
+  })
+
+  it('decodes SLP token outputs', () => {
+    const script = toScript(
+      utf8('SLP\0'),
+      hex('01'),
+      utf8('SEND'),
+      hex(TOKEN_ID),
+      toAmountBE(1000n),
+      toAmountBE(42n),
+    )
+
+    expect(decodeOpReturn(script)).toEqual({
+      protocol: 'SLP',
+      tokenType: 1,
+      txType: 'SEND',
+      tokenId: TOKEN_ID,
+      amounts: ['1000', '42'],
+    })
+  })
+
+  it('decodes the sections of eMPP outputs', () => {
+    const alp = Buffer.concat([
+      utf8('SLP2'),
+      hex('00'),
+      hex('04'),
+      utf8('SEND'),
+      Buffer.from(TOKEN_ID, 'hex').reverse(),
+      hex('01'),
+      hex('e80300000000'),
+    ])
+    const script = Buffer.concat([
+      hex('6a50'),
+      toPushData(alp),
+      toPushData(utf8('PFXdata')),
+    ])
+
+    expect(decodeOpReturn(script)).toEqual({
+      protocol: 'eMPP',
+      sections: [
+        {
+          protocol: 'ALP',
+          tokenType: 0,
+          txType: 'SEND',
+          tokenId: TOKEN_ID,
+          amounts: ['1000'],
+        },
+        {
+          protocol: 'raw',
+          pushes: [utf8('PFXd').toString('hex'), utf8('ata').toString('hex')],
+          text: 'PFXdata',
+        },
+      ],
+    })
+  })
+
+  it('returns the raw data of unknown or malformed outputs', () => {
+    expect(decodeOpReturn(toScript(utf8('text'), hex('00ff')))).toEqual({
+      protocol: 'raw',
+      pushes: ['74657874', '00ff'],
+      text: null,
+    })
+    // an SLP SEND with a truncated amount
+    const truncated = toScript(
+      utf8('SLP\0'),
+      hex('01'),
+      utf8('SEND'),
+      hex(TOKEN_ID),
+      hex('0001'),
+    )
+    expect(decodeOpReturn(truncated)).toMatchObject({ protocol: 'raw' })
+  })
+
+  it('ignores scripts that are not OP_RETURN data', () => {
+    // P2PKH
+    expect(decodeOpReturn(hex(`76a914${'00'.repeat(20)}88ac`))).toBeNull()
+    // OP_RETURN followed by a non-push opcode
+    expect(decodeOpReturn(hex('6a0474657374ac'))).toBeNull()
+  })
+
+  it('decodes outputs with registered decoders', () => {
+    registerOpReturnDecoder(utf8('TEST').toString('hex'), ([, data]) => ({
+      protocol: 'raw',
+      pushes: [],
+      text: data!.toString('utf8').toUpperCase(),
+    }))
+
+    expect(decodeOpReturn(toScript(utf8('TEST'), utf8('hi')))).toEqual({
+      protocol: 'raw',
+      pushes: [],
+      text: 'HI',
+    })
+  })
+})
+
+/**
+ * Builds an OP_RETURN script pushing data
+ * @param pushes - The pushed data
+ * @returns The script
+ */
+function toScript(...pushes: Buffer[]) {
+  return Buffer.concat([hex('6a'), ...pushes.map(toPushData)])
+}
+
+/**
+ * Encodes a data push of up to 255 bytes
+ * @param data - The pushed data
+ * @returns The push opcode followed by the data
+ */
+function toPushData(data: Buffer) {
+  const length = data.length < 0x4c ? [data.length] : [0x4c, data.length]
+  return Buffer.concat([Buffer.from(length), data])
+}
+
+/**
+ * Encodes an SLP amount
+ * @param amount - The amount
+ * @returns The 8-byte big-endian amount
+ */
+function toAmountBE(amount: bigint) {
+  const buf = Buffer.alloc(8)
+  buf.writeBigUInt64BE(amount)
+  return buf
+}
+
+/**
+ * Decodes hex data
+ * @param data - The hex-encoded data
+ * @returns The data
+ */
+function hex(data: string) {
+  return Buffer.from(data, 'hex')
+}
+
+/**
+ * Encodes text
+ * @param text - The text
+ * @returns The UTF-8 encoded text
+ */
+function utf8(text: string) {
+  return Buffer.from(text, 'utf8')
+}
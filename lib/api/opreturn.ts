@@ -0,0 +1,451 @@
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { ScriptProcessor } from 'xpi-ts/lib/rank'
+import type { TransactionOutputRANK } from 'xpi-ts/lib/rank'
+
+/**
+ * RANK vote of an output
+ */
+export type DecodedRANK = { protocol: 'RANK' } & TransactionOutputRANK
+
+/**
+ * memo.cash action of an output
+ */
+export interface DecodedMemo {
+  protocol: 'memo'
+  /** The memo action, e.g. `post` */
+  action: MemoAction
+  /** Text of the action, e.g. the message or profile name */
+  text: string | null
+  /** Topic of a topic post */
+  topic?: string
+  /** Txid of the memo replied to or liked */
+  txid?: string
+}
+
+/**
+ * SLP or ALP token section of an output
+ */
+export interface DecodedToken {
+  protocol: 'SLP' | 'ALP'
+  /** Token type, e.g. 1 for fungible tokens */
+  tokenType: number
+  /** Token tx type, e.g. `GENESIS` or `SEND` */
+  txType: string
+  /** Token ID, null for a GENESIS */
+  tokenId: string | null
+  /** Ticker of a GENESIS */
+  ticker?: string
+  /** Name of a GENESIS */
+  name?: string
+  /** Atoms minted, sent or burned, in output order */
+  amounts: string[]
+}
+
+/**
+ * eMPP output, whose pushes are sections of separate protocols
+ */
+export interface DecodedEMPP {
+  protocol: 'eMPP'
+  /** The decoded sections, in push order */
+  sections: DecodedOutput[]
+}
+
+/**
+ * Fallback for data outputs of unknown protocols
+ */
+export interface DecodedRaw {
+  protocol: 'raw'
+  /** The pushed data, hex-encoded */
+  pushes: string[]
+  /** The pushed data as text, null if it is not printable UTF-8 */
+  text: string | null
+}
+
+/**
+ * Decoded OP_RETURN output, by protocol
+ */
+export type DecodedOutput =
+  | DecodedRANK
+  | DecodedMemo
+  | DecodedToken
+  | DecodedEMPP
+  | DecodedRaw
+
+/**
+ * Decodes the data of an OP_RETURN output
+ * @param pushes - The pushed data, starting with the LOKAD prefix
+ * @param script - The output script
+ * @returns The decoded output, or null if the data does not follow the protocol
+ */
+export type OpReturnDecoder = (
+  pushes: Buffer[],
+  script: Buffer,
+) => DecodedOutput | null
+
+/** memo.cash actions, by prefix */
+const MEMO_ACTIONS = {
+  '6d01': 'set-name',
+  '6d02': 'post',
+  '6d03': 'reply',
+  '6d04': 'like',
+  '6d05': 'set-profile-text',
+  '6d0a': 'set-profile-picture',
+  '6d0c': 'topic-post',
+} as const
+
+type MemoAction = (typeof MEMO_ACTIONS)[keyof typeof MEMO_ACTIONS]
+
+/** Decoders, by LOKAD prefix (hex-encoded first push) */
+const decoders = new Map<string, OpReturnDecoder>()
+
+/**
+ * Registers the decoder of a protocol, replacing any decoder of the prefix
+ * @param lokad - The LOKAD prefix identifying the protocol, hex-encoded
+ * @param decoder - The decoder of the protocol's outputs
+ */
+export function registerOpReturnDecoder(
+  lokad: string,
+  decoder: OpReturnDecoder,
+) {
+  decoders.set(lokad.toLowerCase(), decoder)
+}
+
+/**
+ * Decodes an OP_RETURN output with the decoder of its LOKAD prefix, falling
+ * back to the raw pushed data
+ *
+ * eMPP outputs (`OP_RETURN OP_RESERVED <section>...`) are decoded section by
+ * section, each section's first 4 bytes being its LOKAD prefix.
+ * @param script - The output script
+ * @returns The decoded output, or null if the script is not push-only data
+ */
+export function decodeOpReturn(script: Buffer): DecodedOutput | null {
+  const chunks = parseChunks(script)
+  if (chunks?.[0]?.opcodenum !== Bitcore.Opcode.OP_RETURN) {
+    return null
+  }
+  const data = chunks.slice(1)
+  if (data[0]?.opcodenum === Bitcore.Opcode.OP_RESERVED) {
+    const sections = data.slice(1).map(toPush)
+    if (sections.includes(null)) {
+      return null
+    }
+    return {
+      protocol: 'eMPP',
+      sections: (sections as Buffer[]).map(section =>
+        decodePushes([section.subarray(0, 4), section.subarray(4)], script),
+      ),
+    }
+  }
+  const pushes = data.map(toPush)
+  if (pushes.includes(null)) {
+    return null
+  }
+  return decodePushes(pushes as Buffer[], script)
+}
+
+/**
+ * Decodes pushed data with the decoder of its LOKAD prefix
+ * @param pushes - The pushed data
+ * @param script - The output script
+ * @returns The decoded data, or the raw data if no decoder accepts it
+ */
+function decodePushes(pushes: Buffer[], script: Buffer): DecodedOutput {
+  const decoder = pushes[0] && decoders.get(pushes[0].toString('hex'))
+  if (decoder) {
+    try {
+      const decoded = decoder(pushes, script)
+      if (decoded) {
+        return decoded
+      }
+    } catch {
+      // truncated or malformed data, returned raw
+    }
+  }
+  return {
+    protocol: 'raw',
+    pushes: pushes.map(push => push.toString('hex')),
+    text: toText(Buffer.concat(pushes)),
+  }
+}
+
+/**
+ * Parses a script into its chunks
+ * @param script - The script
+ * @returns The chunks, or null if the script is malformed
+ */
+function parseChunks(script: Buffer) {
+  try {
+    return Bitcore.Script.fromBuffer(script).chunks
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Gets the data pushed by a chunk, including the small integers pushed by
+ * `OP_0`, `OP_1NEGATE` and `OP_1` through `OP_16`
+ * @param chunk - The chunk
+ * @returns The pushed data, or null if the chunk is not a push
+ */
+function toPush(chunk: Bitcore.Script['chunks'][number]): Buffer | null {
+  const { opcodenum } = chunk
+  if (chunk.buf) {
+    return Buffer.from(chunk.buf)
+  }
+  if (opcodenum === Bitcore.Opcode.OP_0) {
+    return Buffer.alloc(0)
+  }
+  if (opcodenum === Bitcore.Opcode.OP_1NEGATE) {
+    return Buffer.from([0x81])
+  }
+  if (opcodenum >= Bitcore.Opcode.OP_1 && opcodenum <= Bitcore.Opcode.OP_16) {
+    return Buffer.from([opcodenum - Bitcore.Opcode.OP_1 + 1])
+  }
+  return null
+}
+
+/**
+ * Decodes data as text
+ * @param data - The data
+ * @returns The text, or null if the data is not printable UTF-8
+ */
+function toText(data: Buffer): string | null {
+  try {
+    const text = new TextDecoder('utf-8', { fatal: true }).decode(data)
+    // eslint-disable-next-line no-control-regex
+    return text && !/[\u0000-\u0008\u000b-\u001f\u007f]/.test(text)
+      ? text
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Reads the fields of a token section, throwing if it is truncated
+ */
+class SectionReader {
+  /** The section */
+  private data: Buffer
+  /** Offset of the next field */
+  private offset = 0
+
+  /**
+   * Creates a new SectionReader instance
+   * @param data - The section
+   */
+  constructor(data: Buffer) {
+    this.data = data
+  }
+
+  /**
+   * Reads a number of bytes
+   * @param length - The number of bytes
+   * @returns The bytes
+   */
+  public read(length: number): Buffer {
+    if (this.offset + length > this.data.length) {
+      throw new RangeError('section is truncated')
+    }
+    const bytes = this.data.subarray(this.offset, this.offset + length)
+    this.offset += length
+    return bytes
+  }
+
+  /**
+   * Reads a single byte
+   * @returns The byte
+   */
+  public readUInt8(): number {
+    return this.read(1)[0]!
+  }
+
+  /**
+   * Reads bytes prefixed by their length, as a single-byte compact size
+   * @returns The bytes
+   */
+  public readVarBytes(): Buffer {
+    const length = this.readUInt8()
+    if (length >= 0xfd) {
+      throw new RangeError('length is too large')
+    }
+    return this.read(length)
+  }
+
+  /**
+   * Reads a 48-bit little-endian amount
+   * @returns The amount
+   */
+  public readAmount(): string {
+    return this.read(6).readUIntLE(0, 6).toString()
+  }
+}
+
+/**
+ * Decodes a RANK vote
+ * @param _pushes - The pushed data
+ * @param script - The output script
+ * @returns The RANK vote, or null if the script is not a valid vote
+ */
+function decodeRANK(_pushes: Buffer[], script: Buffer): DecodedRANK | null {
+  const rankOutput = new ScriptProcessor(script).processScriptRANK()
+  return rankOutput && { protocol: 'RANK', ...rankOutput }
+}
+
+/**
+ * Decodes a memo.cash action
+ * @param pushes - The pushed data, starting with the action prefix
+ * @returns The memo action, or null if the prefix is not a known action
+ */
+function decodeMemo([prefix, ...fields]: Buffer[]): DecodedMemo | null {
+  const action =
+    MEMO_ACTIONS[prefix!.toString('hex') as keyof typeof MEMO_ACTIONS]
+  if (!action) {
+    return null
+  }
+  const utf8 = (field?: Buffer) => (field ? field.toString('utf8') : null)
+  switch (action) {
+    case 'reply':
+    case 'like': {
+      const [txHash, message] = fields
+      if (txHash?.length !== 32) {
+        return null
+      }
+      return {
+        protocol: 'memo',
+        action,
+        text: utf8(message),
+        // the tx hash is pushed in internal byte order
+        txid: Buffer.from(txHash).reverse().toString('hex'),
+      }
+    }
+    case 'topic-post': {
+      const [topic, message] = fields
+      if (!topic) {
+        return null
+      }
+      return {
+        protocol: 'memo',
+        action,
+        text: utf8(message),
+        topic: topic.toString('utf8'),
+      }
+    }
+    default:
+      return { protocol: 'memo', action, text: utf8(fields[0]) }
+  }
+}
+
+/**
+ * Decodes an SLP token output
+ * @param pushes - The pushed data, starting with the `SLP\0` LOKAD prefix
+ * @returns The token section
+ */
+function decodeSLP([, tokenType, txType, ...fields]: Buffer[]): DecodedToken {
+  const type = txType!.toString('utf8')
+  const token = {
+    protocol: 'SLP' as const,
+    tokenType: tokenType!.readUIntBE(0, tokenType!.length),
+    txType: type,
+  }
+  const amount = (field?: Buffer) => {
+    if (field?.length !== 8) {
+      throw new RangeError('amount must be 8 bytes')
+    }
+    return field.readBigUInt64BE().toString()
+  }
+  switch (type) {
+    case 'GENESIS': {
+      // ticker, name, document URL, document hash, decimals, mint baton vout,
+      // initial quantity
+      const [ticker, name, , , , , quantity] = fields
+      return {
+        ...token,
+        tokenId: null,
+        ticker: ticker!.toString('utf8'),
+        name: name!.toString('utf8'),
+        amounts: [amount(quantity)],
+      }
+    }
+    case 'MINT': {
+      const [tokenId, , quantity] = fields
+      return {
+        ...token,
+        tokenId: toTokenId(tokenId),
+        amounts: [amount(quantity)],
+      }
+    }
+    case 'SEND': {
+      const [tokenId, ...amounts] = fields
+      return {
+        ...token,
+        tokenId: toTokenId(tokenId),
+        amounts: amounts.map(amount),
+      }
+    }
+    default:
+      throw new RangeError(`unknown SLP tx type ${type}`)
+  }
+}
+
+/**
+ * Decodes an ALP token section of an eMPP output
+ * @param pushes - The `SLP2` LOKAD prefix and the rest of the section
+ * @returns The token section
+ */
+function decodeALP([, section]: Buffer[]): DecodedToken {
+  const reader = new SectionReader(section!)
+  const token = {
+    protocol: 'ALP' as const,
+    tokenType: reader.readUInt8(),
+    txType: reader.readVarBytes().toString('utf8'),
+  }
+  const readAmounts = () =>
+    Array.from({ length: reader.readUInt8() }, () => reader.readAmount())
+  // token IDs are txids, pushed in internal byte order
+  const readTokenId = () => Buffer.from(reader.read(32)).reverse()
+  switch (token.txType) {
+    case 'GENESIS': {
+      const ticker = reader.readVarBytes().toString('utf8')
+      const name = reader.readVarBytes().toString('utf8')
+      // URL, data, auth pubkey and decimals precede the mint data
+      reader.readVarBytes()
+      reader.readVarBytes()
+      reader.readVarBytes()
+      reader.readUInt8()
+      return { ...token, tokenId: null, ticker, name, amounts: readAmounts() }
+    }
+    case 'MINT':
+    case 'SEND': {
+      const tokenId = toTokenId(readTokenId())
+      return { ...token, tokenId, amounts: readAmounts() }
+    }
+    case 'BURN': {
+      const tokenId = toTokenId(readTokenId())
+      return { ...token, tokenId, amounts: [reader.readAmount()] }
+    }
+    default:
+      throw new RangeError(`unknown ALP tx type ${token.txType}`)
+  }
+}
+
+/**
+ * Converts a token ID to hex, checking its length
+ * @param tokenId - The token ID
+ * @returns The hex-encoded token ID
+ */
+function toTokenId(tokenId?: Buffer): string {
+  if (tokenId?.length !== 32) {
+    throw new RangeError('token ID must be 32 bytes')
+  }
+  return tokenId.toString('hex')
+}
+
+// register the built-in decoders
+registerOpReturnDecoder(Buffer.from('RANK').toString('hex'), decodeRANK)
+registerOpReturnDecoder(Buffer.from('SLP\0').toString('hex'), decodeSLP)
+registerOpReturnDecoder(Buffer.from('SLP2').toString('hex'), decodeALP)
+for (const prefix of Object.keys(MEMO_ACTIONS)) {
+  registerOpReturnDecoder(prefix, decodeMemo)
+}
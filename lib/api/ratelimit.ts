@@ -0,0 +1,222 @@
+import cluster from 'node:cluster'
+import { BlockList, isIPv4 } from 'node:net'
+import rateLimit, { ipKeyGenerator } from 'express-rate-limit'
+import { ClusterRateLimitStore } from '../cluster/index.js'
+import { rateLimitRejectionsTotal } from '../metrics/index.js'
+import { AUTH_HEADER, getInstanceId } from './auth.js'
+import { RateLimitError } from './errors.js'
+import {
+  API_BASE_PATH,
+  API_RATE_LIMIT_POLICIES,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import type { Request, RequestHandler } from 'express'
+import type { APIConfig } from '../../utils/types.js'
+
+const log = logger.child({ component: 'api' })
+
+/** Name of the rate limit applied to routes without a policy */
+const DEFAULT_POLICY = 'default'
+/** Name of the rate limit applied before authentication */
+const AUTH_POLICY = 'auth'
+
+/**
+ * Options shared by every rate limiter: requests are let through, rather than
+ * failed, when the hit counters cannot be read, e.g. when a cluster store
+ * request to the primary times out, and the error is logged
+ */
+const STORE_ERROR_OPTIONS = {
+  passOnStoreError: true,
+  logger: {
+    error: (error: unknown, message?: string) =>
+      log.error(message ?? 'rate limit error', { error: toMessage(error) }),
+    warn: (error: unknown, message?: string) =>
+      log.warn(message ?? 'rate limit warning', { error: toMessage(error) }),
+  },
+}
+
+/**
+ * Creates the API rate limiters: one for each route in
+ * `API_RATE_LIMIT_POLICIES`, and a default one for every other route
+ *
+ * Registered extension instances are limited per instance ID with a higher
+ * quota, anonymous clients per IP. Clients in the allowlist, e.g. our own
+ * front-end servers, are never limited.
+ * @param config - The API configuration
+ * @returns The rate limiting middlewares
+ */
+export function createRateLimiters(config: APIConfig): RequestHandler[] {
+  const isAllowlisted = createAllowlist(config)
+  const policyPaths = API_RATE_LIMIT_POLICIES.map(({ path }) => path)
+
+  return [
+    createRateLimiter(
+      config,
+      DEFAULT_POLICY,
+      1,
+      req =>
+        isAllowlisted(req) || policyPaths.some(path => matchesPath(req, path)),
+    ),
+    ...API_RATE_LIMIT_POLICIES.map(({ path, factor }) =>
+      createRateLimiter(
+        config,
+        path,
+        factor,
+        req => isAllowlisted(req) || !matchesPath(req, path),
+      ),
+    ),
+  ]
+}
+
+/**
+ * Creates the rate limiter run before authentication, limiting requests that
+ * carry an instance ID per IP to the authenticated quota
+ *
+ * Every such request may cost a database lookup, and requests rejected as
+ * unauthorized never reach the other rate limiters, so made-up instance IDs
+ * would otherwise not be limited at all.
+ * @param config - The API configuration
+ * @returns The rate limiting middleware
+ */
+export function createAuthRateLimiter(config: APIConfig): RequestHandler {
+  const isAllowlisted = createAllowlist(config)
+  return rateLimit({
+    windowMs: config.rateLimitWindowMinutes * 60 * 1000,
+    limit: config.rateLimitMaxRequestsAuthenticated,
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip: req => isAllowlisted(req) || req.get(AUTH_HEADER) === undefined,
+    ...STORE_ERROR_OPTIONS,
+    keyGenerator: req => ipKeyGenerator(req.ip ?? ''),
+    handler: (_req, res, next) => {
+      rateLimitRejectionsTotal.inc({ policy: AUTH_POLICY })
+      next(
+        new RateLimitError('too many requests, please try again later', {
+          retryAfter: Number(res.get('Retry-After')),
+        }),
+      )
+    },
+    ...(cluster.isWorker && {
+      store: new ClusterRateLimitStore(`rl:${AUTH_POLICY}:`),
+    }),
+  })
+}
+
+/**
+ * Creates a rate limiter with its own hit counters
+ * @param config - The API configuration
+ * @param policy - Name of the policy, used for the store prefix and metrics
+ * @param factor - Multiplier applied to the configured limits
+ * @param skip - Returns true for requests this rate limiter does not count
+ * @returns The rate limiting middleware
+ */
+function createRateLimiter(
+  config: APIConfig,
+  policy: string,
+  factor: number,
+  skip: (req: Request) => boolean,
+): RequestHandler {
+  return rateLimit({
+    windowMs: config.rateLimitWindowMinutes * 60 * 1000,
+    // `max` was renamed to `limit` in express-rate-limit v7
+    limit: (_req, res) => {
+      const limit = getInstanceId(res)
+        ? config.rateLimitMaxRequestsAuthenticated
+        : config.rateLimitMaxRequests
+      return Math.max(Math.floor(limit * factor), 1)
+    },
+    // sets the `RateLimit` and `Retry-After` headers
+    standardHeaders: true,
+    legacyHeaders: false,
+    skip,
+    ...STORE_ERROR_OPTIONS,
+    keyGenerator: (req, res) => {
+      const instanceId = getInstanceId(res)
+      return instanceId
+        ? `instance:${instanceId}`
+        : ipKeyGenerator(req.ip ?? '')
+    },
+    handler: (_req, res, next) => {
+      rateLimitRejectionsTotal.inc({ policy })
+      next(
+        new RateLimitError('too many requests, please try again later', {
+          retryAfter: Number(res.get('Retry-After')),
+        }),
+      )
+    },
+    // share hit counters across cluster workers
+    ...(cluster.isWorker && {
+      store: new ClusterRateLimitStore(`rl:${policy}:`),
+    }),
+  })
+}
+
+/**
+ * Creates a check for clients in the rate limit allowlist
+ * @param config - The API configuration
+ * @returns Returns true for requests from an allowlisted client IP
+ */
+function createAllowlist(config: APIConfig): (req: Request) => boolean {
+  const allowlist = toBlockList(config.rateLimitAllowlist)
+  return req => {
+    const ip = toClientIP(req)
+    return !!ip && allowlist.check(ip, isIPv4(ip) ? 'ipv4' : 'ipv6')
+  }
+}
+
+/**
+ * Whether a request is for a route, or a route nested under it, ignoring case
+ * @param req - Express Request object
+ * @param path - Path of the route, relative to the API base path
+ * @returns True if the request path matches the route
+ */
+function matchesPath(req: Request, path: string): boolean {
+  // Express routes are case-insensitive, so the policies must be too
+  const segments = req.path.toLowerCase().split('/')
+  // `:param` segments of the route match any value
+  return `${API_BASE_PATH}${path}`
+    .toLowerCase()
+    .split('/')
+    .every((segment, i) =>
+      segment.startsWith(':') ? !!segments[i] : segments[i] === segment,
+    )
+}
+
+/**
+ * Gets the client IP of a request, which honours the `trust proxy` setting,
+ * unwrapping IPv4-mapped IPv6 addresses
+ * @param req - Express Request object
+ * @returns The client IP, if known
+ */
+export function toClientIP(req: Request): string | undefined {
+  return req.ip?.replace(/^::ffff:(?=\d+\.\d+\.\d+\.\d+$)/i, '')
+}
+
+/**
+ * Builds a BlockList from IP addresses and CIDRs, which the configuration has
+ * validated on startup
+ * @param entries - The IP addresses and CIDRs, e.g. `10.0.0.0/8`
+ * @returns The BlockList matching every entry
+ */
+function toBlockList(entries: string[]): BlockList {
+  const blockList = new BlockList()
+  for (const entry of entries) {
+    const [address = '', prefix] = entry.split('/')
+    const type = isIPv4(address) ? 'ipv4' : 'ipv6'
+    if (prefix === undefined) {
+      blockList.addAddress(address, type)
+    } else {
+      blockList.addSubnet(address, Number(prefix), type)
+    }
+  }
+  return blockList
+}
+
+/**
+ * Gets the message of an error raised by a rate limiter
+ * @param error - The error, which may not be an Error
+ * @returns The error message
+ */
+function toMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error)
+}
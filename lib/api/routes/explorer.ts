@@ -1,10 +1,30 @@
+import { once } from 'node:events'
 import { Router } from 'express'
 import * as Bitcore from 'xpi-ts/lib/bitcore'
-import { ScriptProcessor } from 'xpi-ts/lib/rank'
-import { chronikClient, rpcClient } from '../../modules/index.js'
-import { NODE_GEOIP_URL } from '../../../utils/constants.js'
-import { toAsyncIterable } from '../../../utils/functions.js'
-import { HTTP, sendJSON } from '../index.js'
+import { Prisma } from '../../../generated/prisma/index.js'
+import { chronikClient, prisma, rpcClient } from '../../modules/index.js'
+import { mempool } from '../../indexer/mempool.js'
+import { CHART_RANGES } from '../../indexer/charts.js'
+import { lookupGeoIP } from '../../modules/geoip.js'
+import {
+  API_BASE_PATH,
+  API_EXPORT_PAGE_SIZE,
+  API_EXPORT_TIME_MARGIN,
+  API_SEARCH_RESULT_COUNT,
+  PEER_DEFAULT_SINCE,
+} from '../../../utils/constants.js'
+import {
+  getMinerAddress,
+  getSumBurnedSats,
+  toAsyncIterable,
+  toPublicPeerAddress,
+} from '../../../utils/functions.js'
+import { uri as rankUri } from './rank.js'
+import { getRequestLogger, HTTP, sendJSON } from '../index.js'
+import { responseCache, setImmutable, setTipDependent } from '../cache.js'
+import { NotFoundError, toAPIError, ValidationError } from '../errors.js'
+import { address, hash, pagination, route, t } from '../schema.js'
+import { decodeOpReturn } from '../opreturn.js'
 import type {
   TxInput,
   TxOutput,
@@ -12,8 +32,12 @@ import type {
   Block,
   TxHistoryPage,
   ScriptType,
+  ScriptEndpoint,
+  BlockchainInfo,
 } from 'chronik-client'
+import type { ChartRange } from '../../indexer/charts.js'
 import type { TransactionOutputRANK } from 'xpi-ts/lib/rank'
+import type { DecodedOutput } from '../opreturn.js'
 import type { PeerInfo } from 'xpi-ts/lib/rpc'
 
 interface AddressResponse {
@@ -22,13 +46,13 @@ interface AddressResponse {
   balance?: string
   lastSeen: string | null
   history: {
-    txs: Tx[]
+    txs: ExplorerTxData[]
     numPages: number
   }
 }
 
 type ExplorerBlock = Block & {
-  minedBy: string
+  minedBy: string | null
 }
 
 /**
@@ -40,93 +64,144 @@ type ExplorerTxInput = TxInput & {
 }
 
 /**
- * Extended transaction output with address and RANK information
+ * Extended transaction output with address and decoded OP_RETURN data
  */
 type ExplorerTxOutput = TxOutput & {
   /** The address associated with this output (if applicable) */
   address?: string
+  /** Decoded data of an OP_RETURN output, by protocol */
+  decoded?: DecodedOutput
   /** Parsed RANK output data (if this is a RANK OP_RETURN output) */
   rankOutput?: TransactionOutputRANK
 }
 
 /**
- * Extended transaction with explorer-specific fields
+ * Transaction with input addresses, decoded outputs and burned sats, as
+ * returned by every explorer route
  */
-type ExplorerTx = Tx & {
+type ExplorerTxData = Tx & {
   /** Transaction inputs with address information */
-  inputs: ExplorerTxInput[]
-  /** Transaction outputs with address and RANK information */
-  outputs: ExplorerTxOutput[]
-  /** Number of confirmations for this transaction */
-  confirmations: number
+  inputs: (TxInput | ExplorerTxInput)[]
+  /** Transaction outputs with address and decoded OP_RETURN data */
+  outputs: (TxOutput | ExplorerTxOutput)[]
   /** Sum of satoshis burned in OP_RETURN outputs */
   sumBurnedSats: string
 }
 
 /**
- * Counters for tracking aggregate transaction values
+ * Extended transaction with explorer-specific fields
  */
-interface TxCounters {
-  /** Sum of satoshis burned in OP_RETURN outputs */
-  sumBurnedSats: bigint
+type ExplorerTx = ExplorerTxData & {
+  /** Number of confirmations for this transaction */
+  confirmations: number
 }
 
 /**
- * Query parameters for explorer API endpoints
+ * Row of an address history export, for a single transaction
  */
-interface Query {
-  /** Parameters for the transaction endpoint */
-  tx: {
-    /** Whether to return raw transaction data (1 = true, 0 = false) */
-    raw?: string
-  }
-  /** Parameters for the blocks endpoint */
-  blocks: {
-    /** Page number for pagination */
-    page?: string
-    /** Number of items per page */
-    pageSize?: string
-  }
-  /** Parameters for the address endpoint */
-  address: {
-    /** Page number for pagination */
-    page?: string
-    /** Number of items per page */
-    pageSize?: string
-    /** Whether to include address balance in the response */
-    includeBalance?: string
-  }
+interface AddressExportRow {
+  /** Block time of the tx, or its first-seen time if unconfirmed, in ISO 8601 */
+  date: string
+  /** Transaction ID */
+  txid: string
+  /** Height of the block of the tx, null if unconfirmed */
+  blockHeight: number | null
+  /** Whether the address received or sent sats, or only paid itself */
+  direction: 'received' | 'sent' | 'self'
+  /** Sats received by the address minus the sats it spent, in sats */
+  netAmount: string
+  /** Fee of the tx if the address funded it, in sats */
+  fee: string
+  /** Sats burned in OP_RETURN outputs of the tx */
+  burnedSats: string
+  /** Balance of the address after the tx, in sats */
+  balance: string
+}
+
+/** Columns of an address history export, in CSV order */
+const EXPORT_COLUMNS: (keyof AddressExportRow)[] = [
+  'date',
+  'txid',
+  'blockHeight',
+  'direction',
+  'netAmount',
+  'fee',
+  'burnedSats',
+  'balance',
+]
+
+/** Content type of each address history export format */
+const EXPORT_CONTENT_TYPES = {
+  csv: 'text/csv; charset=utf-8',
+  jsonl: 'application/x-ndjson',
 }
 
+/** Format of an address history export */
+type ExportFormat = keyof typeof EXPORT_CONTENT_TYPES
+
 /**
- * Geographic location data from IP lookup
+ * Typed search result, linking to the explorer route that serves it
  */
-interface GeoIPData {
-  /** Country name */
-  country: string
-  /** City name */
-  city: string
-}
+type SearchResult = {
+  /** API URL of the matching resource */
+  url: string
+} & (
+  | { type: 'block'; hash: string; height: number }
+  | { type: 'tx'; txid: string; confirmed: boolean }
+  | { type: 'address'; address: string; format: 'xaddress' | 'legacy' }
+  | { type: 'profile'; platform: string; profileId: string; ranking: string }
+)
 
 /**
- * Response from the GeoIP API
+ * Node count of a network series bucket, by client version or country
  */
-interface GeoIPResponse {
-  /** Whether the request was successful */
-  success: boolean
-  /** HTTP status message */
-  status: string
-  /** The IP address that was looked up */
-  ip: string
-  /** Geographic location data */
-  data: GeoIPData
-  /** The type of IP address */
-  type: 'unicast'
+interface NetworkCountRow {
+  /** Start of the bucket, in seconds */
+  bucket: bigint
+  /** Client version (subver) or country; null if the country is not known */
+  key: string | null
+  /** Number of distinct peers seen in the bucket */
+  count: number
 }
 
 const DEFAULT_PAGE_SIZE = 10
 const MAX_PAGE_SIZE = 40
-const GEOIP_CACHE = new Map<string, GeoIPResponse>()
+
+const CHART_RANGE_NAMES = Object.keys(CHART_RANGES) as ChartRange[]
+
+/** Schema of a Chronik transaction with its addresses and decoded outputs */
+const TX_SCHEMA = t.object(
+  {
+    txid: t.string(),
+    inputs: t.array(t.object({ address: t.optional(t.string()) })),
+    outputs: t.array(
+      t.object({
+        address: t.optional(t.string()),
+        decoded: t.optional(
+          t.object(
+            {
+              protocol: t.string({
+                enum: ['RANK', 'memo', 'SLP', 'ALP', 'eMPP', 'raw'],
+              }),
+            },
+            {
+              description:
+                'Decoded OP_RETURN data; unknown protocols are decoded as `raw` pushes',
+            },
+          ),
+        ),
+        rankOutput: t.optional(
+          t.object({}, { description: 'RANK vote of the output' }),
+        ),
+      }),
+    ),
+    sumBurnedSats: t.string(),
+  },
+  {
+    description:
+      'Chronik `Tx`, with input and output addresses, decoded OP_RETURN outputs and the sats they burn',
+  },
+)
 
 // ======================================
 // Router setup
@@ -138,147 +213,450 @@ const router = Router()
  * @route GET /explorer
  * @returns Mining information from the node RPC
  */
-router.get('', async (_req, res) => {
-  const miningInfo = await rpcClient.getMiningInfo()
-  res.json(miningInfo)
-})
+router.get(
+  '',
+  route(
+    {
+      summary: 'Get mining information',
+      response: t.object({}, { description: 'RPC `getmininginfo` result' }),
+    },
+    async (_req, res) => {
+      const miningInfo = await rpcClient.getMiningInfo()
+      res.json(miningInfo)
+    },
+  ),
+)
 
 /**
  * Get network overview including peer information with geolocation data
  * @route GET /explorer/overview
  * @returns {Object} Object containing miningInfo and peerInfo with geolocation
  */
-router.get('/overview', async (req, res) => {
-  const peerInfo = await rpcClient.getPeerInfo()
-  const peers: PeerInfo[] = []
-  for (const peer of peerInfo) {
-    // skip private IPv4 and IPv6 addresses
-    if (
-      peer.addr.match(
-        /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2[0-9]|3[0-1])\.|169\.254\.)/,
-      ) ||
-      peer.addr.match(
-        /^(::1$|[fF][cCdD][0-9a-fA-F]{2}:|[fF][eE][89aAbB][0-9a-fA-F]:)/,
-      )
-    ) {
-      continue
-    }
+router.get(
+  '/overview',
+  route(
+    {
+      summary: 'Get mining information and the public peers of the node',
+      response: t.object({
+        miningInfo: t.object({}, { description: 'RPC `getmininginfo` result' }),
+        peerInfo: t.array(
+          t.object(
+            {
+              addr: t.string(),
+              subver: t.string(),
+              geoip: t.optional(
+                t.object({ country: t.string(), city: t.string() }),
+              ),
+            },
+            { description: 'RPC `getpeerinfo` entry' },
+          ),
+        ),
+      }),
+    },
+    async (_req, res) => {
+      const peerInfo = await rpcClient.getPeerInfo()
+      const peers: PeerInfo[] = []
+      for (const peer of peerInfo) {
+        // skip private IPv4 and IPv6 addresses
+        const ip = toPublicPeerAddress(peer.addr)
+        if (ip) {
+          peers.push({ ...peer, addr: ip })
+        }
+      }
+
+      // look up every peer concurrently; peers whose location is not known or
+      // whose lookup failed are returned without `geoip`
+      const locations = await lookupGeoIP(peers.map(peer => peer.addr))
+      for (const peer of peers) {
+        const geoip = locations.get(peer.addr)
+        if (geoip) {
+          peer.geoip = geoip
+        }
+      }
+
+      const miningInfo = await rpcClient.getMiningInfo()
 
-    // Remove the port from the peer address
-    const [ip] = peer.addr.split(/\:\d{1,5}$/)
-    if (!ip) continue
-    if (GEOIP_CACHE.has(ip)) {
-      peers.push({
-        ...peer,
-        addr: ip,
-        geoip: GEOIP_CACHE.get(ip)!.data,
+      sendJSON(res, {
+        miningInfo,
+        peerInfo: peers,
       })
-      continue
-    }
-    const response = await fetch(`${NODE_GEOIP_URL}/${ip}`)
-    const json = (await response.json()) as GeoIPResponse
-    // console.log('GeoIP response for IP', ip, json)
-    if (json.success) {
-      GEOIP_CACHE.set(ip, json)
-      peers.push({
-        ...peer,
-        addr: ip,
-        geoip: json.data,
+    },
+  ),
+)
+
+/**
+ * Get the public peers the node has been connected to, from the stored peer
+ * snapshots
+ * @route GET /explorer/network/peers
+ * @query {number} [since] - Only return peers seen at or after this timestamp, in seconds (default: 1 day ago)
+ * @returns {Object} Object containing the peers, most recently seen first
+ */
+router.get(
+  '/network/peers',
+  route(
+    {
+      summary: 'Get the public peers seen in the stored peer snapshots',
+      query: {
+        since: t.optional(
+          t.integer({
+            min: 0,
+            description:
+              'Only return peers seen at or after this timestamp, in seconds (default: 1 day ago)',
+          }),
+        ),
+      },
+      response: t.object({
+        since: t.integer(),
+        peers: t.array(
+          t.object({
+            addr: t.string(),
+            subver: t.string(),
+            version: t.integer(),
+            country: t.nullable(t.string()),
+            city: t.nullable(t.string()),
+            firstSeen: t.integer(),
+            lastSeen: t.integer(),
+          }),
+        ),
+      }),
+    },
+    async (req, res) => {
+      const since =
+        req.input.query.since ??
+        Math.floor(Date.now() / 1000) - PEER_DEFAULT_SINCE
+
+      const peers = await prisma.peer.findMany({
+        where: { lastSeen: { gte: since } },
+        orderBy: [{ lastSeen: 'desc' }, { addr: 'asc' }],
       })
-    }
-  }
 
-  const miningInfo = await rpcClient.getMiningInfo()
+      sendJSON(res, {
+        since,
+        peers: peers.map(peer => ({
+          ...peer,
+          firstSeen: Number(peer.firstSeen),
+          lastSeen: Number(peer.lastSeen),
+        })),
+      })
+    },
+  ),
+)
 
-  sendJSON(res, {
-    miningInfo,
-    peerInfo: peers,
-  })
-})
+/**
+ * Get the number of public peers by client version and by country over time,
+ * from the stored peer snapshots
+ * @route GET /explorer/network/versions
+ * @query {string} [range] - day, week, month, quarter or year (default: day)
+ * @returns {Object} Object containing one point per bucket with the node counts, oldest first
+ */
+router.get(
+  '/network/versions',
+  route(
+    {
+      summary: 'Get the number of public peers by version and country',
+      query: {
+        range: t.optional(
+          t.string({ enum: CHART_RANGE_NAMES, description: 'Time range' }),
+          'day',
+        ),
+      },
+      response: t.object({
+        range: t.string(),
+        series: t.array(
+          t.object({
+            timestamp: t.integer(),
+            nodes: t.integer(),
+            versions: t.record(t.integer(), {
+              description: 'Node count by client version',
+            }),
+            countries: t.record(t.integer(), {
+              description: 'Node count by country',
+            }),
+          }),
+        ),
+      }),
+    },
+    async (req, res) => {
+      const { range } = req.input.query
+      sendJSON(res, { range, series: await getNetworkSeries(range) })
+    },
+  ),
+)
 
 /**
  * Get blockchain information
  * @route GET /explorer/chain-info
  * @returns Blockchain information from Chronik including tip height and hash
  */
-router.get('/chain-info', async (_req, res) => {
-  const blockchainInfo = await chronikClient.blockchainInfo()
-  sendJSON(res, blockchainInfo)
-})
+router.get(
+  '/chain-info',
+  route(
+    {
+      summary: 'Get the tip of the chain',
+      response: t.object({ tipHash: t.string(), tipHeight: t.integer() }),
+    },
+    async (_req, res) => {
+      let blockchainInfo = responseCache.get<BlockchainInfo>('chain-info')
+      if (!blockchainInfo) {
+        blockchainInfo = await chronikClient.blockchainInfo()
+        responseCache.tipHeight ??= blockchainInfo.tipHeight
+        responseCache.set('chain-info', blockchainInfo, false)
+      }
+      setTipDependent(res)
+      sendJSON(res, blockchainInfo)
+    },
+  ),
+)
+
+/**
+ * Get unconfirmed transactions tracked in the mempool
+ * @route GET /explorer/mempool
+ * @query {number} [page] - Page number (default: 1)
+ * @query {number} [pageSize] - Number of txids per page (default: 10, max: 40)
+ * @returns {Object} Mempool totals and a page of txids, most recent first
+ */
+router.get(
+  '/mempool',
+  route(
+    {
+      summary: 'Get the unconfirmed transactions in the mempool',
+      query: pagination(DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+      response: t.object({
+        txCount: t.integer({ description: 'Number of transactions' }),
+        totalSize: t.integer({
+          description: 'Total size of the transactions, in bytes',
+        }),
+        totalFee: t.string({ description: 'Total fees paid, in sats' }),
+        sumBurnedSats: t.string({
+          description: 'Total sats pending to be burned in OP_RETURN outputs',
+        }),
+        txids: t.array(t.string()),
+        numPages: t.integer(),
+      }),
+    },
+    async (req, res) => {
+      const { page, pageSize } = req.input.query
+      sendJSON(res, {
+        ...mempool.getSummary(),
+        txids: mempool.getTxids(page - 1, pageSize),
+        numPages: Math.ceil(mempool.size / pageSize),
+      })
+    },
+  ),
+)
 
 /**
  * Get transaction history for an address
  * @route GET /explorer/address/:address
  * @param address - The address to look up transaction history for
+ * @query {number} [page] - Page number (default: 1)
+ * @query {number} [pageSize] - Number of transactions per page (default: 10, max: 40)
+ * @query {boolean} [includeBalance] - Whether to include the address balance
  * @returns Transaction history with pagination and burned satoshi totals
  */
-router.get('/address/:address', async (req, res) => {
-  const address = req.params.address
-  if (!address) {
-    return sendJSON(res, { error: 'address is required' }, HTTP.BAD_REQUEST)
-  }
+router.get(
+  '/address/:address',
+  route(
+    {
+      summary: 'Get the transaction history of an address',
+      params: { address: address('The address') },
+      query: {
+        ...pagination(DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+        includeBalance: t.optional(
+          t.boolean({ description: 'Whether to include the balance' }),
+          false,
+        ),
+      },
+      response: t.object({
+        scriptType: t.string(),
+        scriptPayload: t.string(),
+        balance: t.optional(t.string({ description: 'Balance, in sats' })),
+        lastSeen: t.nullable(t.string()),
+        history: t.object({ txs: t.array(TX_SCHEMA), numPages: t.integer() }),
+      }),
+    },
+    async (req, res) => {
+      const { address } = req.input.params
+      const { page, pageSize, includeBalance } = req.input.query
 
-  if (!Bitcore.Address.isValid(address)) {
-    return sendJSON(res, { error: 'invalid address' }, HTTP.BAD_REQUEST)
-  }
+      const script = Bitcore.Script.fromAddress(address)
+      const scriptType = script.getType()
+      const scriptPayload = script.getData().toString('hex')
 
-  const query = req.query as Query['address']
-  const pageNum = Number(query.page) || 1
-  let pageSizeNum = Number(query.pageSize) || DEFAULT_PAGE_SIZE
-  if (pageSizeNum > MAX_PAGE_SIZE) {
-    pageSizeNum = MAX_PAGE_SIZE
-  }
+      const scriptEndpoint = chronikClient.script(scriptType, scriptPayload)
+      // Chronik history page is 0-indexed, but we want to show the user a 1-indexed page
+      const history: TxHistoryPage = await scriptEndpoint.history(
+        page - 1,
+        pageSize,
+      )
 
-  const script = Bitcore.Script.fromAddress(address)
-  const scriptType = script.getType()
-  const scriptPayload = script.getData().toString('hex')
-
-  let history: TxHistoryPage
-  try {
-    const scriptEndpoint = chronikClient.script(scriptType, scriptPayload)
-    // Chronik history page is 0-indexed, but we want to show the user a 1-indexed page
-    history = await scriptEndpoint.history(
-      pageNum > 0 ? pageNum - 1 : 0,
-      pageSizeNum,
-    )
-  } catch (e) {
-    return sendJSON(res, { error: (e as Error).message }, HTTP.NOT_FOUND)
-  }
+      // find the address last seen time
+      // use latest block time if available, otherwise use the most recent tx firstSeen time
+      const lastSeenTx = history.txs[0]
+      let lastSeen: string | null = null
+      if (lastSeenTx) {
+        lastSeen = lastSeenTx.block?.timestamp ?? lastSeenTx.timeFirstSeen
+      }
 
-  // find the address last seen time
-  // use latest block time if available, otherwise use the most recent tx firstSeen time
-  const lastSeenTx = history.txs[0]
-  let lastSeen: string | null = null
-  if (lastSeenTx) {
-    lastSeen = lastSeenTx.block?.timestamp ?? lastSeenTx.timeFirstSeen
-  }
+      const txs = history.txs.map(toExplorerTxData)
 
-  const txs = history.txs.map(tx => ({
-    ...tx,
-    sumBurnedSats: getSumBurnedSats(tx).toString(),
-  }))
+      const data: AddressResponse = {
+        scriptType,
+        scriptPayload,
+        lastSeen,
+        history: { txs, numPages: history.numPages },
+      }
 
-  const data: AddressResponse = {
-    scriptType,
-    scriptPayload,
-    lastSeen,
-    history: { txs, numPages: history.numPages },
-  }
+      if (includeBalance) {
+        const response = await chronikClient
+          .script(scriptType, scriptPayload)
+          .utxos()
+        const utxos = response[0]?.utxos
+        if (utxos) {
+          data.balance = utxos
+            .reduce((acc, utxo) => acc + BigInt(utxo.value), 0n)
+            .toString()
+        }
+      }
 
-  if (query.includeBalance && query.includeBalance === '1') {
-    const response = await chronikClient
-      .script(scriptType, scriptPayload)
-      .utxos()
-    const utxos = response[0]?.utxos
-    if (utxos) {
-      data.balance = utxos
-        .reduce((acc, utxo) => acc + BigInt(utxo.value), 0n)
-        .toString()
-    }
-  }
+      sendJSON(res, data)
+    },
+  ),
+)
+
+/**
+ * Export the full transaction history of an address, oldest first
+ * @route GET /explorer/address/:address/export
+ * @param address - The address to export the transaction history of
+ * @query {string} [format] - csv or jsonl (default: csv)
+ * @query {number} [from] - Only export transactions at or after this timestamp, in seconds
+ * @query {number} [to] - Only export transactions at or before this timestamp, in seconds
+ * @returns {AddressExportRow} Stream of one row per transaction
+ */
+router.get(
+  '/address/:address/export',
+  route(
+    {
+      summary: 'Export the full transaction history of an address',
+      description:
+        'Streams every transaction of the address, oldest first, as CSV with a header row or as JSON Lines. ' +
+        'The running balance includes the transactions before `from`.',
+      params: { address: address('The address') },
+      query: {
+        format: t.optional(
+          t.string({
+            enum: Object.keys(EXPORT_CONTENT_TYPES) as ExportFormat[],
+            description: 'Export format',
+          }),
+          'csv',
+        ),
+        from: t.optional(
+          t.integer({
+            min: 0,
+            description:
+              'Only export transactions at or after this timestamp, in seconds',
+          }),
+        ),
+        to: t.optional(
+          t.integer({
+            min: 0,
+            description:
+              'Only export transactions at or before this timestamp, in seconds',
+          }),
+        ),
+      },
+      response: t.object(
+        {
+          date: t.string({ format: 'date-time' }),
+          txid: t.string(),
+          blockHeight: t.nullable(t.integer()),
+          direction: t.string({ enum: ['received', 'sent', 'self'] }),
+          netAmount: t.string({
+            description: 'Sats received minus sats spent by the address',
+          }),
+          fee: t.string({ description: 'Fee, if the address funded the tx' }),
+          burnedSats: t.string(),
+          balance: t.string({
+            description: 'Balance of the address after the tx',
+          }),
+        },
+        { description: 'One row (CSV) or object (JSON Lines) per transaction' },
+      ),
+      contentType: EXPORT_CONTENT_TYPES.csv,
+    },
+    async (req, res) => {
+      const { address } = req.input.params
+      const { format, from, to } = req.input.query
+      if (from !== undefined && to !== undefined && from > to) {
+        throw new ValidationError('from must not be after to', { from, to })
+      }
+
+      const script = Bitcore.Script.fromAddress(address)
+      const scriptHex = script.toHex()
+      const txs = getHistoryOldestFirst(
+        chronikClient.script(
+          script.getType(),
+          script.getData().toString('hex'),
+        ),
+      )
+      // fetch the first page before streaming, so Chronik errors are sent as
+      // an error response
+      let next = await txs.next()
 
-  sendJSON(res, data)
-})
+      res.status(HTTP.OK).set({
+        'Content-Type': EXPORT_CONTENT_TYPES[format],
+        'Content-Disposition': `attachment; filename="${address}.${format}"`,
+        'Cache-Control': 'no-cache',
+        // disable response buffering in nginx
+        'X-Accel-Buffering': 'no',
+      })
+      if (format === 'csv') {
+        res.write(`${EXPORT_COLUMNS.join(',')}\n`)
+      }
+
+      let balance = 0n
+      try {
+        for (; !next.done; next = await txs.next()) {
+          // stop fetching the history once the client goes away
+          if (res.destroyed) {
+            return
+          }
+          const row = toAddressExportRow(next.value, scriptHex, balance)
+          balance = BigInt(row.balance)
+          const time = Date.parse(row.date) / 1000
+          if (to !== undefined && time > to) {
+            // the history is ordered by first-seen time rather than by date,
+            // so only stop fetching pages once txs are first seen well after
+            // `to`; later txs cannot be dated at or before it
+            if (toFirstSeen(next.value) > to + API_EXPORT_TIME_MARGIN) {
+              break
+            }
+            continue
+          }
+          if (from !== undefined && time < from) {
+            continue
+          }
+          const line =
+            format === 'csv'
+              ? EXPORT_COLUMNS.map(column => row[column] ?? '').join(',')
+              : JSON.stringify(row)
+          if (!res.write(`${line}\n`)) {
+            await Promise.race([once(res, 'drain'), once(res, 'close')])
+          }
+        }
+        res.end()
+      } catch (e) {
+        getRequestLogger(res).error('address export failed', {
+          address,
+          error: (e as Error).message,
+        })
+        // the export is already streaming; abort it so the client sees it is
+        // incomplete rather than a truncated file
+        res.destroy(e as Error)
+      }
+    },
+  ),
+)
 
 /**
  * Get block details by hash or height
@@ -286,129 +664,449 @@ router.get('/address/:address', async (req, res) => {
  * @param hashOrHeight - The block hash or height to look up
  * @returns Block data with miner address and burned satoshi totals per transaction
  */
-router.get('/block/:hashOrHeight', async (req, res) => {
-  const hashOrHeight = req.params.hashOrHeight
-  if (!hashOrHeight) {
-    return sendJSON(
-      res,
-      { error: 'hashOrHeight is required' },
-      HTTP.BAD_REQUEST,
-    )
-  }
+router.get(
+  '/block/:hashOrHeight',
+  route(
+    {
+      summary: 'Get a block by hash or height',
+      params: {
+        hashOrHeight: t.string({
+          pattern: /^([0-9a-fA-F]{64}|\d{1,10})$/,
+          format: 'block hash or height',
+          description: 'The block hash or height',
+        }),
+      },
+      response: t.object(
+        {
+          blockInfo: t.object({ hash: t.string(), height: t.integer() }),
+          txs: t.array(TX_SCHEMA),
+          minedBy: t.nullable(t.string({ description: 'Miner address' })),
+        },
+        { description: 'Chronik `Block`, with the address of its miner' },
+      ),
+    },
+    async (req, res) => {
+      const { hashOrHeight } = req.input.params
 
-  let block: Block
-  try {
-    block = await chronikClient.block(hashOrHeight)
-    if (!block) {
-      throw new Error('block not found')
-    }
-  } catch (e) {
-    return sendJSON(res, { error: (e as Error).message }, HTTP.NOT_FOUND)
-  }
+      const cacheKey = `block:${hashOrHeight}`
+      const cached = responseCache.get<ExplorerBlock>(cacheKey)
+      if (cached) {
+        if (responseCache.isSettled(cached.blockInfo.height)) {
+          setImmutable(res)
+        } else {
+          setTipDependent(res)
+        }
+        return sendJSON(res, cached)
+      }
 
-  // return genesis block as is
-  if (block.blockInfo.height === 0) {
-    return sendJSON(res, block)
-  }
+      const block: Block = await chronikClient.block(hashOrHeight)
+      if (!block) {
+        throw new NotFoundError('block not found', { hashOrHeight })
+      }
 
-  // iterate each tx's outputs to calculate sumBurnedSats for the tx
-  const txs: Array<Tx & { sumBurnedSats: string }> = []
-  for await (const tx of toAsyncIterable(block.txs)) {
-    txs.push({
-      ...tx,
-      sumBurnedSats: getSumBurnedSats(tx).toString(),
-    })
-  }
-  block.txs = txs
+      // return genesis block as is
+      if (block.blockInfo.height === 0) {
+        setImmutable(res)
+        return sendJSON(res, block)
+      }
+
+      // iterate each tx to decode its outputs and calculate its sumBurnedSats
+      const txs: ExplorerTxData[] = []
+      for await (const tx of toAsyncIterable(block.txs)) {
+        txs.push(toExplorerTxData(tx))
+      }
+      block.txs = txs
 
-  sendJSON(res, {
-    ...block,
-    minedBy: Bitcore.Script.fromHex(block.txs[0]!.outputs[1]!.outputScript)
-      .toAddress()!
-      .toXAddress(),
-  } as ExplorerBlock)
-})
+      const data = {
+        ...block,
+        minedBy: getMinerAddress(block.txs[0]!),
+      } as ExplorerBlock
+
+      // cache under both the hash and height, so either lookup hits
+      const { hash, height } = block.blockInfo
+      const settled = responseCache.isSettled(height)
+      responseCache.set(`block:${hash}`, data, settled)
+      responseCache.set(`block:${height}`, data, settled)
+      if (settled) {
+        setImmutable(res)
+      } else {
+        setTipDependent(res)
+      }
+      sendJSON(res, data)
+    },
+  ),
+)
 
 /**
  * Get a paginated list of blocks
  * @route GET /explorer/blocks
- * @query {string} [page] - Page number (default: 1)
- * @query {string} [pageSize] - Number of blocks per page (default: 10, max: 40)
+ * @query {number} [page] - Page number (default: 1)
+ * @query {number} [pageSize] - Number of blocks per page (default: 10, max: 40)
  * @returns {Object} Object containing blocks array and tipHeight
  */
-router.get('/blocks', async (req, res) => {
-  const query = req.query as Query['blocks']
-  const pageNum = Number(query.page) || 1
-  let pageSizeNum = Number(query.pageSize) || DEFAULT_PAGE_SIZE
-  if (pageSizeNum > MAX_PAGE_SIZE) {
-    pageSizeNum = MAX_PAGE_SIZE
-  }
+router.get(
+  '/blocks',
+  route(
+    {
+      summary: 'Get the latest blocks',
+      query: pagination(DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE),
+      response: t.object({
+        blocks: t.array(t.object({ hash: t.string(), height: t.integer() }), {
+          description: 'Chronik `BlockInfo`, highest first',
+        }),
+        tipHeight: t.integer(),
+      }),
+    },
+    async (req, res) => {
+      const { page, pageSize } = req.input.query
 
-  const blockchainInfo = await chronikClient.blockchainInfo()
-  const startHeight = blockchainInfo.tipHeight - pageSizeNum * pageNum
-  const endHeight =
-    startHeight + (pageSizeNum > MAX_PAGE_SIZE ? MAX_PAGE_SIZE : pageSizeNum)
-  const blocks = await chronikClient.blocks(
-    startHeight + 1 > 0 ? startHeight + 1 : 1,
-    endHeight,
-  )
-
-  sendJSON(res, {
-    blocks: blocks.reverse(),
-    tipHeight: blockchainInfo.tipHeight,
-  })
-})
+      const cacheKey = `blocks:${page}:${pageSize}`
+      const cached = responseCache.get<object>(cacheKey)
+      if (cached) {
+        setTipDependent(res)
+        return sendJSON(res, cached)
+      }
+
+      const blockchainInfo = await chronikClient.blockchainInfo()
+      responseCache.tipHeight ??= blockchainInfo.tipHeight
+      const startHeight = blockchainInfo.tipHeight - pageSize * page
+      const endHeight = startHeight + pageSize
+      const blocks = await chronikClient.blocks(
+        startHeight + 1 > 0 ? startHeight + 1 : 1,
+        endHeight,
+      )
+
+      const data = {
+        blocks: blocks.reverse(),
+        tipHeight: blockchainInfo.tipHeight,
+      }
+      responseCache.set(cacheKey, data, false)
+      setTipDependent(res)
+      sendJSON(res, data)
+    },
+  ),
+)
 
 /**
  * Get transaction details by transaction ID
  * @route GET /explorer/tx/:txid
  * @param txid - The transaction ID to look up
- * @query {string} [raw] - If '1', returns raw transaction data from RPC; otherwise returns parsed data from Chronik
+ * @query {boolean} [raw] - If true, returns raw transaction data from RPC; otherwise returns parsed data from Chronik
  * @returns Transaction data in Explorer format or raw transaction data
  */
-router.get('/tx/:txid', async (req, res) => {
-  const txid = req.params.txid
-  const query = req.query as Query['tx']
-
-  // Return raw transaction data if requested
-  if (query.raw && query.raw === '1') {
-    const tx = await rpcClient.getRawTransaction(txid)
-    res.json(tx)
-  } else {
-    // Get blockchain info to calculate confirmations
-    const blockchainInfo = await rpcClient.getBlockCount()
-    // Return parsed transaction data from Chronik
-    let tx: Tx
-    try {
-      tx = await chronikClient.tx(txid)
-    } catch (e) {
-      return sendJSON(
-        res,
-        { error: 'transaction not found', txid },
-        HTTP.NOT_FOUND,
-      )
-    }
+router.get(
+  '/tx/:txid',
+  route(
+    {
+      summary: 'Get a transaction',
+      params: { txid: hash('The txid') },
+      query: {
+        raw: t.optional(
+          t.boolean({
+            description: 'Return the raw transaction from the node instead',
+          }),
+          false,
+        ),
+      },
+      response: t.object(
+        {
+          txid: t.string(),
+          inputs: t.array(t.object({ address: t.optional(t.string()) })),
+          outputs: t.array(
+            t.object({
+              address: t.optional(t.string()),
+              decoded: t.optional(
+                t.object({}, { description: 'Decoded OP_RETURN data' }),
+              ),
+              rankOutput: t.optional(
+                t.object({}, { description: 'RANK vote of the output' }),
+              ),
+            }),
+          ),
+          confirmations: t.integer(),
+          sumBurnedSats: t.string(),
+        },
+        {
+          description:
+            'Chronik `Tx` with input and output addresses and RANK votes, or the RPC `getrawtransaction` result if `raw` is set',
+        },
+      ),
+    },
+    async (req, res) => {
+      const { txid } = req.input.params
 
-    const counters: TxCounters = {
-      sumBurnedSats: 0n,
-    }
-    const inputs = tx.inputs.map(i => toExplorerTxInput(i))
-    const outputs = tx.outputs.map(o => toExplorerTxOutput(o, counters))
-
-    sendJSON(res, {
-      ...tx,
-      inputs,
-      outputs,
-      confirmations: tx.block ? blockchainInfo - tx.block.height + 1 : 0,
-      sumBurnedSats: counters.sumBurnedSats.toString(),
-    } as ExplorerTx)
-  }
-})
+      // Return raw transaction data if requested
+      if (req.input.query.raw) {
+        const tx = await rpcClient.getRawTransaction(txid)
+        res.json(tx)
+      } else {
+        // Get the tip height to calculate confirmations
+        const blockchainInfo =
+          responseCache.tipHeight ?? (await rpcClient.getBlockCount())
+        // Return parsed transaction data from Chronik, cached once settled
+        let tx = responseCache.get<Tx>(`tx:${txid}`)
+        if (!tx) {
+          try {
+            tx = await chronikClient.tx(txid)
+          } catch (e) {
+            const error = toAPIError(e)
+            // keep the txid in the response body for lookups that miss
+            if (error instanceof NotFoundError) {
+              throw new NotFoundError('transaction not found', { txid })
+            }
+            throw error
+          }
+          if (tx.block && responseCache.isSettled(tx.block.height)) {
+            responseCache.set(`tx:${txid}`, tx, true)
+          }
+        }
+
+        // confirmations change with every block
+        setTipDependent(res)
+        sendJSON(res, {
+          ...toExplorerTxData(tx),
+          confirmations: tx.block ? blockchainInfo - tx.block.height + 1 : 0,
+        } as ExplorerTx)
+      }
+    },
+  ),
+)
+
+/**
+ * Search for blocks, transactions, addresses and RANK profiles
+ * @route GET /explorer/search
+ * @query {string} q - Block height, block hash, txid, address or RANK profile ID
+ * @returns {Object} Object containing up to `API_SEARCH_RESULT_COUNT` typed results
+ */
+router.get(
+  '/search',
+  route(
+    {
+      summary: 'Search for blocks, transactions, addresses and RANK profiles',
+      query: {
+        q: t.string({
+          minLength: 1,
+          maxLength: 128,
+          description:
+            'Block height, block hash, txid, address or RANK profile ID',
+        }),
+      },
+      response: t.object({
+        q: t.string(),
+        results: t.array(
+          t.object(
+            {
+              type: t.string({ enum: ['block', 'tx', 'address', 'profile'] }),
+              url: t.string({ description: 'API URL of the result' }),
+            },
+            { description: 'Result, with the fields of its type' },
+          ),
+        ),
+      }),
+    },
+    async (req, res) => {
+      const q = req.input.query.q.trim()
+      if (!q) {
+        throw new ValidationError('q is required')
+      }
+
+      const results: SearchResult[] = []
+      if (/^\d{1,10}$/.test(q)) {
+        results.push(...(await searchBlockHeight(Number(q))))
+      } else if (/^[0-9a-fA-F]{64}$/.test(q)) {
+        // block hashes and txids share the same format, so look up both
+        results.push(...(await searchHash(q.toLowerCase())))
+      } else if (Bitcore.Address.isValid(q)) {
+        const address = Bitcore.Address.fromString(q)
+        const xaddress = address.toXAddress()
+        results.push({
+          type: 'address',
+          address: xaddress,
+          format: q === xaddress ? 'xaddress' : 'legacy',
+          url: `${API_BASE_PATH}${uri}/address/${xaddress}`,
+        })
+      }
+
+      // any input may also be a RANK profile ID, e.g. a numeric Twitter handle
+      const remaining = API_SEARCH_RESULT_COUNT - results.length
+      if (remaining > 0) {
+        results.push(...(await searchProfiles(q, remaining)))
+      }
+
+      sendJSON(res, { q, results })
+    },
+  ),
+)
 
 // ======================================
 // Function definitions
 // ======================================
 
+/**
+ * Counts the distinct public peers seen in each bucket of a range, in total,
+ * by client version and by country, including empty buckets
+ * @param range - The time range of the series
+ * @returns One point per bucket, oldest first
+ */
+async function getNetworkSeries(range: ChartRange) {
+  const { length, interval } = CHART_RANGES[range]
+  const step = BigInt(interval)
+  const end = (BigInt(Math.floor(Date.now() / 1000)) / step) * step
+  const start = end - BigInt(length) + step
+  const [totals, versions, countries] = await Promise.all([
+    countPeers(start, step),
+    countPeers(start, step, 'subver'),
+    countPeers(start, step, 'country'),
+  ])
+
+  const series = new Map<
+    bigint,
+    {
+      timestamp: number
+      nodes: number
+      versions: Record<string, number>
+      countries: Record<string, number>
+    }
+  >()
+  for (let bucket = start; bucket <= end; bucket += step) {
+    series.set(bucket, {
+      timestamp: Number(bucket),
+      nodes: 0,
+      versions: {},
+      countries: {},
+    })
+  }
+  for (const row of totals) {
+    const point = series.get(row.bucket)
+    if (point) {
+      point.nodes = row.count
+    }
+  }
+  for (const row of versions) {
+    const point = series.get(row.bucket)
+    if (point) {
+      point.versions[row.key ?? 'unknown'] = row.count
+    }
+  }
+  for (const row of countries) {
+    const point = series.get(row.bucket)
+    if (point) {
+      point.countries[row.key ?? 'unknown'] = row.count
+    }
+  }
+  return [...series.values()]
+}
+
+/**
+ * Counts the distinct peers in each bucket of the stored peer snapshots
+ * @param start - Start of the first bucket, in seconds
+ * @param step - Size of each bucket, in seconds
+ * @param column - Optional column to group the peers of each bucket by
+ * @returns The peer counts of each bucket with snapshots
+ */
+function countPeers(
+  start: bigint,
+  step: bigint,
+  column?: 'subver' | 'country',
+): Promise<NetworkCountRow[]> {
+  const key = column ? Prisma.raw(`"${column}"`) : Prisma.sql`NULL`
+  return prisma.$queryRaw<NetworkCountRow[]>`
+    SELECT ("timestamp" / ${step}) * ${step} AS "bucket", ${key} AS "key",
+      COUNT(DISTINCT "addr")::int AS "count"
+    FROM "PeerSnapshot"
+    WHERE "timestamp" >= ${start}
+    GROUP BY "bucket", "key"`
+}
+
+/**
+ * Finds the block at a height, if it is not above the tip
+ * @param height - The block height
+ * @returns The block result, if found
+ */
+async function searchBlockHeight(height: number): Promise<SearchResult[]> {
+  const { tipHeight } = await chronikClient.blockchainInfo()
+  if (height > tipHeight) {
+    return []
+  }
+  const [blockInfo] = await chronikClient.blocks(height, height)
+  if (!blockInfo) {
+    return []
+  }
+  return [
+    {
+      type: 'block',
+      hash: blockInfo.hash,
+      height: blockInfo.height,
+      url: `${API_BASE_PATH}${uri}/block/${blockInfo.hash}`,
+    },
+  ]
+}
+
+/**
+ * Finds the block and transaction matching a 64-hex hash
+ * @param hash - The block hash or txid
+ * @returns The block and/or transaction results
+ */
+async function searchHash(hash: string): Promise<SearchResult[]> {
+  const [block, tx] = await Promise.allSettled([
+    chronikClient.block(hash),
+    chronikClient.tx(hash),
+  ])
+  const results: SearchResult[] = []
+  if (block.status === 'fulfilled' && block.value) {
+    const { blockInfo } = block.value
+    results.push({
+      type: 'block',
+      hash: blockInfo.hash,
+      height: blockInfo.height,
+      url: `${API_BASE_PATH}${uri}/block/${blockInfo.hash}`,
+    })
+  }
+  if (tx.status === 'fulfilled') {
+    results.push({
+      type: 'tx',
+      txid: tx.value.txid,
+      confirmed: !!tx.value.block,
+      url: `${API_BASE_PATH}${uri}/tx/${tx.value.txid}`,
+    })
+  }
+  // only a miss on both lookups is "no results"; upstream errors are raised
+  for (const result of [block, tx]) {
+    if (result.status === 'rejected') {
+      const error = toAPIError(result.reason)
+      if (!(error instanceof NotFoundError)) {
+        throw error
+      }
+    }
+  }
+  return results
+}
+
+/**
+ * Finds the RANK profiles whose ID starts with the query, ignoring case,
+ * highest ranked first
+ * @param q - The search query
+ * @param limit - Max number of profiles to return
+ * @returns The profile results
+ */
+async function searchProfiles(
+  q: string,
+  limit: number,
+): Promise<SearchResult[]> {
+  const profiles = await prisma.rankProfile.findMany({
+    where: { profileIdLower: { startsWith: q.toLowerCase() } },
+    orderBy: { ranking: 'desc' },
+    take: limit,
+  })
+  return profiles.map(profile => ({
+    type: 'profile',
+    platform: profile.platform,
+    profileId: profile.profileId,
+    ranking: profile.ranking.toString(),
+    url: `${API_BASE_PATH}${rankUri}/${profile.platform}/${encodeURIComponent(profile.profileId)}`,
+  }))
+}
+
 /**
  * Converts a transaction input to an explorer-formatted input with address information
  * @param input - The original transaction input from Chronik
@@ -433,33 +1131,200 @@ function toExplorerTxInput(input: TxInput): TxInput | ExplorerTxInput {
 }
 
 /**
- * Converts a transaction output to an explorer-formatted output with address and RANK information
+ * Iterates the transaction history of a script from its oldest transaction,
+ * fetching it from Chronik page by page
+ *
+ * Chronik pages the history newest first, so txs first seen during the
+ * iteration move older txs to later offsets, and reorgs can move them to
+ * earlier offsets. Each page is picked to also hold the last yielded tx, which
+ * is checked to still be right after the txs left to yield; if it moved, the
+ * iteration re-anchors on its new offset so that no tx is skipped or yielded
+ * twice.
+ * @param endpoint - The Chronik script endpoint
+ * @returns The transactions, oldest first
+ */
+async function* getHistoryOldestFirst(
+  endpoint: ScriptEndpoint,
+): AsyncGenerator<Tx> {
+  let lastPageNum = 0
+  let lastPage = await endpoint.history(0, API_EXPORT_PAGE_SIZE)
+  // txs first seen between the requests can add pages to the end
+  while (lastPage.numPages > lastPageNum + 1) {
+    lastPageNum = lastPage.numPages - 1
+    lastPage = await endpoint.history(lastPageNum, API_EXPORT_PAGE_SIZE)
+  }
+  for (const tx of [...lastPage.txs].reverse()) {
+    yield tx
+  }
+  // offset of the newest yielded tx; the newer txs before it are left to yield
+  let end = lastPageNum * API_EXPORT_PAGE_SIZE
+  // txids of the last yielded page, newest first
+  let yielded = lastPage.txs.map(tx => tx.txid)
+  while (end > 0) {
+    const { pageNum, pageSize } = toAnchoredPage(end)
+    const page = await endpoint.history(pageNum, pageSize)
+    const index = end - pageNum * pageSize
+    if (page.txs[index]?.txid !== yielded[0]) {
+      const anchor = await findHistoryAnchor(endpoint, yielded, end)
+      end = anchor.offset
+      yielded = yielded.slice(anchor.index)
+      continue
+    }
+    const txs = page.txs.slice(0, index)
+    for (const tx of [...txs].reverse()) {
+      yield tx
+    }
+    yielded = txs.map(tx => tx.txid)
+    end = pageNum * pageSize
+  }
+}
+
+/**
+ * Picks the page of the history holding the tx at an offset along with as
+ * many of the newer txs before it as possible, trying every page size down
+ * to half of `API_EXPORT_PAGE_SIZE`
+ * @param offset - The offset of the tx the page must hold
+ * @returns The page number and page size to fetch
+ */
+function toAnchoredPage(offset: number) {
+  if (offset < API_EXPORT_PAGE_SIZE) {
+    return { pageNum: 0, pageSize: offset + 1 }
+  }
+  let best = { pageNum: 0, pageSize: API_EXPORT_PAGE_SIZE, newer: -1 }
+  for (
+    let pageSize = API_EXPORT_PAGE_SIZE;
+    pageSize > API_EXPORT_PAGE_SIZE / 2;
+    pageSize--
+  ) {
+    const newer = offset % pageSize
+    if (newer > best.newer) {
+      best = { pageNum: Math.floor(offset / pageSize), pageSize, newer }
+    }
+  }
+  return best
+}
+
+/**
+ * Finds the newest of the last yielded txs that is still in the history of a
+ * script, searching from the page before its expected offset
+ * @param endpoint - The Chronik script endpoint
+ * @param txids - The txids of the last yielded page, newest first
+ * @param expected - The offset the newest tx was expected at
+ * @returns The offset of the tx found and its index in `txids`
+ */
+async function findHistoryAnchor(
+  endpoint: ScriptEndpoint,
+  txids: string[],
+  expected: number,
+): Promise<{ offset: number; index: number }> {
+  const indexes = new Map(txids.map((txid, index) => [txid, index]))
+  const start = Math.max(Math.floor(expected / API_EXPORT_PAGE_SIZE) - 1, 0)
+  for (
+    let pageNum = start, numPages = start + 1;
+    pageNum < numPages;
+    pageNum++
+  ) {
+    const page = await endpoint.history(pageNum, API_EXPORT_PAGE_SIZE)
+    numPages = page.numPages
+    const position = page.txs.findIndex(tx => indexes.has(tx.txid))
+    if (position >= 0) {
+      return {
+        offset: pageNum * API_EXPORT_PAGE_SIZE + position,
+        index: indexes.get(page.txs[position]!.txid)!,
+      }
+    }
+  }
+  throw new Error('address history changed too much during the export')
+}
+
+/**
+ * Gets the time a transaction was first seen, which orders the history of a
+ * script; txs never seen in the mempool are ordered by their block timestamp
+ * @param tx - The transaction
+ * @returns The first-seen time, in seconds
+ */
+function toFirstSeen(tx: Tx) {
+  return Number(tx.timeFirstSeen) || Number(tx.block?.timestamp ?? 0)
+}
+
+/**
+ * Converts a transaction to a row of an address history export
+ * @param tx - The transaction
+ * @param outputScript - The output script of the address, hex-encoded
+ * @param balance - The balance of the address before the tx, in sats
+ * @returns The export row
+ */
+function toAddressExportRow(
+  tx: Tx,
+  outputScript: string,
+  balance: bigint,
+): AddressExportRow {
+  let received = 0n
+  let sent = 0n
+  let inputSats = 0n
+  let outputSats = 0n
+  for (const input of tx.inputs) {
+    inputSats += BigInt(input.value)
+    if (input.outputScript === outputScript) {
+      sent += BigInt(input.value)
+    }
+  }
+  for (const output of tx.outputs) {
+    outputSats += BigInt(output.value)
+    if (output.outputScript === outputScript) {
+      received += BigInt(output.value)
+    }
+  }
+  const netAmount = received - sent
+  const timestamp = Number(tx.block?.timestamp ?? tx.timeFirstSeen)
+  return {
+    date: new Date(timestamp * 1000).toISOString(),
+    txid: tx.txid,
+    blockHeight: tx.block?.height ?? null,
+    direction: netAmount > 0n ? 'received' : netAmount < 0n ? 'sent' : 'self',
+    netAmount: netAmount.toString(),
+    fee: (!tx.isCoinbase && sent > 0n ? inputSats - outputSats : 0n).toString(),
+    burnedSats: getSumBurnedSats(tx).toString(),
+    balance: (balance + netAmount).toString(),
+  }
+}
+
+/**
+ * Converts a transaction to its explorer format, with input and output
+ * addresses, decoded OP_RETURN outputs and burned satoshis
+ * @param tx - The original transaction from Chronik
+ * @returns The transaction in explorer format
+ */
+function toExplorerTxData(tx: Tx): ExplorerTxData {
+  return {
+    ...tx,
+    inputs: tx.inputs.map(toExplorerTxInput),
+    outputs: tx.outputs.map(toExplorerTxOutput),
+    sumBurnedSats: getSumBurnedSats(tx).toString(),
+  }
+}
+
+/**
+ * Converts a transaction output to an explorer-formatted output with address and decoded OP_RETURN data
  * @param output - The original transaction output from Chronik
- * @param counters - Counter object to track aggregate values like burned satoshis
- * @returns The output with address and/or RANK output data added if applicable
+ * @returns The output with address and/or decoded data added if applicable
  */
-function toExplorerTxOutput(
-  output: TxOutput,
-  counters: TxCounters,
-): TxOutput | ExplorerTxOutput {
+function toExplorerTxOutput(output: TxOutput): TxOutput | ExplorerTxOutput {
   const scriptBuf = Buffer.from(output.outputScript, 'hex')
   const script = Bitcore.Script.fromBuffer(scriptBuf)
 
-  // OP_RETURN outputs
+  // OP_RETURN outputs, decoded by the protocol of their LOKAD prefix
   if (script.isDataOut()) {
-    // increment sumBurnedSats by the output value
-    counters.sumBurnedSats += BigInt(output.value)
-    // process the RANK output
-    const rank = new ScriptProcessor(scriptBuf)
-    const rankOutput = rank.processScriptRANK()
-    if (rankOutput) {
+    const decoded = decodeOpReturn(scriptBuf)
+    if (decoded) {
+      const { protocol, ...rankOutput } = decoded
       return {
         ...output,
-        rankOutput,
+        decoded,
+        // kept for clients that predate the decoded field
+        ...(protocol === 'RANK' && { rankOutput }),
       } as ExplorerTxOutput
     }
-
-    // TODO: we can add more LOKAD checks here
   }
 
   // P2PKH/P2SH/P2TR outputs
@@ -475,27 +1340,11 @@ function toExplorerTxOutput(
     } as ExplorerTxOutput
   }
 
-  // if we get here, the output is not a rank output or an address output
+  // if we get here, the output is not a data output or an address output
   // just return the output as is
   return output
 }
 
-/**
- * Calculates the sum of satoshis burned in OP_RETURN outputs
- * @param tx - The transaction to analyze
- * @returns The total amount of satoshis burned in OP_RETURN outputs
- */
-function getSumBurnedSats(tx: Tx): bigint {
-  return tx.outputs.reduce((acc, output) => {
-    const value = BigInt(output.value)
-    // 0x6a = OP_RETURN
-    if (output.outputScript.startsWith('6a') && value > BigInt(0)) {
-      return acc + value
-    }
-    return acc
-  }, BigInt(0))
-}
-
 // ======================================
 // Export configured router and URI
 // ======================================
@@ -0,0 +1,80 @@
+import { Router } from 'express'
+import { prisma } from '../../modules/index.js'
+import { isValidInstanceId } from '../../../utils/functions.js'
+import { sendJSON } from '../index.js'
+import { AUTH_HEADER } from '../auth.js'
+import { ValidationError } from '../errors.js'
+import { route, t } from '../schema.js'
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Register a browser extension instance
+ *
+ * Once registered, the instance authenticates its requests by sending its ID
+ * in the `X-Instance-Id` header, which grants it a higher rate limit.
+ * Registering an instance again is a no-op.
+ * @route POST /extension/register
+ * @body {string} instanceId - Proof-of-work instance ID
+ * @body {string} runtimeId - Extension runtime ID
+ * @body {string} startTime - Time the extension instance started
+ * @body {number} nonce - Nonce found by the proof-of-work
+ * @returns {Object} Object containing the instance ID, its registration time and the header to authenticate with
+ */
+router.post(
+  '/register',
+  route(
+    {
+      summary: 'Register a browser extension instance',
+      description: `Once registered, the instance authenticates its requests by sending its ID in the \`${AUTH_HEADER}\` header, which grants it a higher rate limit.`,
+      body: t.object({
+        instanceId: t.string({
+          description:
+            'Proof-of-work instance ID, SHA-256 of `runtimeId:startTime:nonce`',
+        }),
+        runtimeId: t.string({ description: 'Extension runtime ID' }),
+        startTime: t.string({
+          description: 'Time the instance started, as an ISO 8601 string',
+        }),
+        nonce: t.integer({
+          min: 0,
+          description: 'Nonce found by the proof-of-work',
+        }),
+      }),
+      response: t.object({
+        instanceId: t.string(),
+        registeredAt: t.string(),
+        authHeader: t.string(),
+      }),
+    },
+    async (req, res) => {
+      const { instanceId, runtimeId, startTime, nonce } = req.input.body
+      if (
+        !(await isValidInstanceId({ instanceId, runtimeId, startTime, nonce }))
+      ) {
+        throw new ValidationError('invalid instance ID', { instanceId })
+      }
+
+      const instance = await prisma.extensionInstance.upsert({
+        where: { id: instanceId },
+        create: { id: instanceId, runtimeId, startTime, nonce: BigInt(nonce) },
+        update: {},
+      })
+
+      sendJSON(res, {
+        instanceId: instance.id,
+        registeredAt: instance.createdAt,
+        authHeader: AUTH_HEADER,
+      })
+    },
+  ),
+)
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/extension'
+export { uri, router }
@@ -0,0 +1,234 @@
+import { Router } from 'express'
+import {
+  chronikClient,
+  chronikPool,
+  prisma,
+  rpcClient,
+  rpcPool,
+} from '../../modules/index.js'
+import { getNNGStatus } from '../../modules/nng.js'
+import { API_READY_CHECK_TIMEOUT } from '../../../utils/constants.js'
+import { HTTP, sendJSON } from '../index.js'
+import { route, t } from '../schema.js'
+import config from '../../../config.js'
+import type { UpstreamEndpointStatus } from '../../modules/upstream.js'
+
+/**
+ * Result of checking a single dependency
+ */
+interface DependencyStatus {
+  /** Whether the dependency responded successfully */
+  ok: boolean
+  /** Time (ms) the check took */
+  latency: number
+  /** Error message, if the check failed */
+  error?: string
+}
+
+/**
+ * Response body of the readiness endpoint
+ */
+interface ReadyResponse {
+  /** Whether every dependency is healthy and Chronik is in sync */
+  ready: boolean
+  /** Status of each dependency */
+  dependencies: {
+    chronik: DependencyStatus & {
+      tipHeight?: number
+      endpoints: UpstreamEndpointStatus[]
+    }
+    rpc: DependencyStatus & {
+      blockCount?: number
+      endpoints: UpstreamEndpointStatus[]
+    }
+    nng: DependencyStatus & { lastMessageAt?: string | null }
+    database: DependencyStatus
+  }
+  /** Number of blocks Chronik's tip is behind the node's tip */
+  blockLag: number | null
+  /** Whether Chronik's tip lags the node's tip by more than the allowed blocks */
+  lagging: boolean
+}
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Check that the process is alive and serving requests
+ * @route GET /health
+ * @returns {Object} Object containing the process status and uptime
+ */
+router.get(
+  '/health',
+  route(
+    {
+      summary: 'Check that the process is alive',
+      response: t.object({
+        status: t.string({ enum: ['ok'] }),
+        pid: t.integer(),
+        uptime: t.integer({ description: 'Uptime, in seconds' }),
+      }),
+    },
+    (_req, res) => {
+      sendJSON(res, {
+        status: 'ok',
+        pid: process.pid,
+        uptime: Math.floor(process.uptime()),
+      })
+    },
+  ),
+)
+
+/**
+ * Check whether the upstream dependencies are reachable and Chronik is in sync
+ * with the node
+ * @route GET /ready
+ * @returns {ReadyResponse} Status and latency of each dependency; 503 if not ready
+ */
+router.get(
+  '/ready',
+  route(
+    {
+      summary: 'Check that the dependencies are reachable and in sync',
+      description:
+        'Responds with 503 and the same body if the API is not ready.',
+      response: t.object({
+        ready: t.boolean(),
+        dependencies: t.record(
+          t.object({
+            ok: t.boolean(),
+            latency: t.integer({ description: 'Check time, in ms' }),
+            error: t.optional(t.string()),
+            lastMessageAt: t.optional(
+              t.nullable(
+                t.string({
+                  format: 'date-time',
+                  description: 'Time of the last NNG block message',
+                }),
+              ),
+            ),
+            endpoints: t.optional(
+              t.array(
+                t.object({
+                  name: t.string(),
+                  state: t.string({ enum: ['closed', 'open', 'half-open'] }),
+                  tipHeight: t.nullable(t.integer()),
+                  lagging: t.boolean(),
+                }),
+                {
+                  description:
+                    'Circuit breaker state of each Chronik or RPC endpoint',
+                },
+              ),
+            ),
+          }),
+          { description: 'Status of chronik, rpc, nng and database' },
+        ),
+        blockLag: t.nullable(t.integer()),
+        lagging: t.boolean(),
+      }),
+    },
+    async (_req, res) => {
+      const [chronik, rpc, nng, database] = await Promise.all([
+        checkDependency(async () => {
+          const { tipHeight } = await chronikClient.blockchainInfo()
+          return { tipHeight }
+        }),
+        checkDependency(async () => {
+          const blockCount = await rpcClient.getBlockCount()
+          return { blockCount }
+        }),
+        checkDependency(async () => {
+          const { up, connected, lastMessageAt } = getNNGStatus()
+          if (!connected) {
+            throw new Error('not connected')
+          }
+          if (!up) {
+            throw new Error(
+              `no block message since ${lastMessageAt ?? 'connecting'}`,
+            )
+          }
+          return { lastMessageAt }
+        }),
+        checkDependency(async () => {
+          await prisma.$queryRaw`SELECT 1`
+          return {}
+        }),
+      ])
+
+      let blockLag: number | null = null
+      if (chronik.tipHeight !== undefined && rpc.blockCount !== undefined) {
+        blockLag = Math.max(rpc.blockCount - chronik.tipHeight, 0)
+      }
+      const lagging =
+        blockLag !== null && blockLag > config.api.readyMaxBlockLag
+      const ready = chronik.ok && rpc.ok && nng.ok && database.ok && !lagging
+
+      const data: ReadyResponse = {
+        ready,
+        dependencies: {
+          chronik: { ...chronik, endpoints: chronikPool.status() },
+          rpc: { ...rpc, endpoints: rpcPool.status() },
+          nng,
+          database,
+        },
+        blockLag,
+        lagging,
+      }
+      sendJSON(res, data, ready ? HTTP.OK : HTTP.SERVICE_UNAVAILABLE)
+    },
+  ),
+)
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Runs a dependency check, timing it and catching any error
+ * @param check - Function that resolves with extra status fields if the dependency is healthy
+ * @returns The dependency status, merged with the fields returned by the check
+ */
+async function checkDependency<T extends object>(
+  check: () => Promise<T>,
+): Promise<DependencyStatus & Partial<T>> {
+  const start = performance.now()
+  let timer: NodeJS.Timeout | undefined
+  try {
+    const result = await Promise.race([
+      check(),
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new Error('timed out')),
+          API_READY_CHECK_TIMEOUT,
+        )
+      }),
+    ])
+    return { ok: true, latency: elapsed(start), ...result }
+  } catch (e) {
+    return {
+      ok: false,
+      latency: elapsed(start),
+      error: (e as Error).message,
+    } as DependencyStatus & Partial<T>
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Gets the time elapsed since a start time
+ * @param start - Start time, from `performance.now()`
+ * @returns Elapsed time in whole milliseconds
+ */
+function elapsed(start: number): number {
+  return Math.round(performance.now() - start)
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/'
+export { uri, router }
@@ -1,3 +1,11 @@
 import * as explorer from './explorer.js'
+import * as extension from './extension.js'
+import * as health from './health.js'
+import * as metrics from './metrics.js'
+import * as rank from './rank.js'
+import * as stats from './stats.js'
+import * as stream from './stream.js'
+import * as tx from './tx.js'
+import * as wallet from './wallet.js'
 
-export { explorer }
+export { explorer, extension, health, metrics, rank, stats, stream, tx, wallet }
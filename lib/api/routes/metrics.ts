@@ -0,0 +1,38 @@
+import cluster from 'node:cluster'
+import { Router } from 'express'
+import { getClusterMetrics } from '../../cluster/index.js'
+import { register } from '../../metrics/index.js'
+import { route, t } from '../schema.js'
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Get API, upstream, cache and indexer metrics
+ * @route GET /metrics
+ * @returns {string} Metrics in the Prometheus text format, aggregated across the cluster
+ */
+router.get(
+  '',
+  route(
+    {
+      summary: 'Get API, upstream, cache and indexer metrics',
+      response: t.string({ description: 'Metrics, in the Prometheus format' }),
+      contentType: 'text/plain',
+    },
+    async (_req, res) => {
+      const metrics = cluster.isWorker
+        ? await getClusterMetrics()
+        : await register.metrics()
+      res.contentType(register.contentType).send(metrics)
+    },
+  ),
+)
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/metrics'
+export { uri, router }
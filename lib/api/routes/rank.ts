@@ -0,0 +1,258 @@
+import { Router } from 'express'
+import { PlatformConfiguration } from 'xpi-ts/lib/rank'
+import { Prisma } from '../../../generated/prisma/index.js'
+import { prisma } from '../../modules/index.js'
+import { CHART_RANGES } from '../../indexer/charts.js'
+import {
+  API_RANK_MAX_RESULT_COUNT,
+  API_RANK_RESULT_COUNT,
+} from '../../../utils/constants.js'
+import { sendJSON } from '../index.js'
+import { NotFoundError } from '../errors.js'
+import { route, t } from '../schema.js'
+import type { ChartRange } from '../../indexer/charts.js'
+import type { RankProfile, RankVote } from '../../../generated/prisma/index.js'
+
+/** Time window of the votes ranked by the top profiles endpoint */
+type RankWindow = ChartRange | 'all'
+
+/** Totals of a profile, without the lowercased ID kept for searches */
+type ProfileTotals = Omit<RankProfile, 'profileIdLower'>
+
+const RANK_WINDOWS: RankWindow[] = [
+  ...(Object.keys(CHART_RANGES) as ChartRange[]),
+  'all',
+]
+
+/** Schema of the platform of a profile */
+const PLATFORM_SCHEMA = t.string({
+  enum: [...PlatformConfiguration.keys()],
+  description: 'Platform of the profile, e.g. twitter',
+})
+
+/** Schema of the number of profiles or votes to return */
+const LIMIT_SCHEMA = t.optional(
+  t.integer({
+    min: 1,
+    max: API_RANK_MAX_RESULT_COUNT,
+    clamp: true,
+    description: 'Number of results to return',
+  }),
+  API_RANK_RESULT_COUNT,
+)
+
+/** Schemas of the fields of profile totals */
+const PROFILE_SCHEMA_SHAPE = {
+  platform: t.string(),
+  profileId: t.string(),
+  ranking: t.string({ description: 'Positive minus negative sats' }),
+  satsPositive: t.string(),
+  satsNegative: t.string(),
+  votesPositive: t.integer(),
+  votesNegative: t.integer(),
+  votesNeutral: t.integer(),
+}
+
+/** Schema of profile totals */
+const PROFILE_SCHEMA = t.object(PROFILE_SCHEMA_SHAPE)
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Get the profiles with the highest ranking
+ * @route GET /rank/top
+ * @query {string} [platform] - Only rank profiles of this platform
+ * @query {string} [window] - day, week, month, quarter, year or all (default: day)
+ * @query {number} [limit] - Number of profiles to return (default: 10, max: 40)
+ * @returns {Object} Object containing the profiles, ordered by ranking
+ */
+router.get(
+  '/top',
+  route(
+    {
+      summary: 'Get the profiles with the highest ranking',
+      query: {
+        platform: t.optional(PLATFORM_SCHEMA),
+        window: t.optional(
+          t.string({
+            enum: RANK_WINDOWS,
+            description: 'Time window of the ranked votes',
+          }),
+          'day',
+        ),
+        limit: LIMIT_SCHEMA,
+      },
+      response: t.object({
+        platform: t.nullable(t.string()),
+        window: t.string(),
+        profiles: t.array(PROFILE_SCHEMA),
+      }),
+    },
+    async (req, res) => {
+      const { platform, window, limit } = req.input.query
+
+      const profiles =
+        window === 'all'
+          ? await prisma.rankProfile.findMany({
+              where: platform ? { platform } : {},
+              orderBy: { ranking: 'desc' },
+              take: limit,
+            })
+          : await getTopProfiles(
+              BigInt(
+                Math.floor(Date.now() / 1000) - CHART_RANGES[window].length,
+              ),
+              limit,
+              platform,
+            )
+
+      sendJSON(res, {
+        platform: platform ?? null,
+        window,
+        profiles: profiles.map(toProfileJSON),
+      })
+    },
+  ),
+)
+
+/**
+ * Get the RANK totals and recent votes of a profile
+ * @route GET /rank/:platform/:profileId
+ * @param platform - The platform of the profile, e.g. twitter
+ * @param profileId - The profile ID
+ * @query {number} [limit] - Number of recent votes to return (default: 10, max: 40)
+ * @returns {Object} Object containing the profile totals and its most recent votes
+ */
+router.get(
+  '/:platform/:profileId',
+  route(
+    {
+      summary: 'Get the RANK totals and recent votes of a profile',
+      params: {
+        platform: PLATFORM_SCHEMA,
+        profileId: t.string({ description: 'The profile ID' }),
+      },
+      query: { limit: LIMIT_SCHEMA },
+      response: t.object({
+        ...PROFILE_SCHEMA_SHAPE,
+        votes: t.array(
+          t.object({
+            id: t.string({ description: 'Outpoint, as `txid:outIdx`' }),
+            txid: t.string(),
+            height: t.integer(),
+            timestamp: t.string(),
+            platform: t.string(),
+            profileId: t.string(),
+            postId: t.nullable(t.string()),
+            sentiment: t.string(),
+            sats: t.string(),
+            voter: t.nullable(
+              t.string({
+                description:
+                  'Address of the first input, if it could be determined',
+              }),
+            ),
+          }),
+        ),
+      }),
+    },
+    async (req, res) => {
+      const { platform, profileId } = req.input.params
+
+      const [profile, votes] = await Promise.all([
+        prisma.rankProfile.findUnique({
+          where: { platform_profileId: { platform, profileId } },
+        }),
+        prisma.rankVote.findMany({
+          where: { platform, profileId },
+          orderBy: [{ height: 'desc' }, { id: 'asc' }],
+          take: req.input.query.limit,
+        }),
+      ])
+      if (!profile) {
+        throw new NotFoundError('profile not found', { platform, profileId })
+      }
+
+      sendJSON(res, {
+        ...toProfileJSON(profile),
+        votes: votes.map(toVoteJSON),
+      })
+    },
+  ),
+)
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Sums the votes cast since a timestamp per profile, ordered by ranking
+ * @param since - The timestamp of the oldest votes to include, in seconds
+ * @param limit - The number of profiles to return
+ * @param platform - Optional platform to filter profiles by
+ * @returns The profile totals of the votes in the window
+ */
+async function getTopProfiles(
+  since: bigint,
+  limit: number,
+  platform?: string,
+): Promise<ProfileTotals[]> {
+  return prisma.$queryRaw<ProfileTotals[]>`
+    SELECT "platform", "profileId",
+      SUM(CASE WHEN "sentiment" = 'positive' THEN "sats" ELSE 0 END)::bigint
+        - SUM(CASE WHEN "sentiment" = 'negative' THEN "sats" ELSE 0 END)::bigint
+        AS "ranking",
+      SUM(CASE WHEN "sentiment" = 'positive' THEN "sats" ELSE 0 END)::bigint
+        AS "satsPositive",
+      SUM(CASE WHEN "sentiment" = 'negative' THEN "sats" ELSE 0 END)::bigint
+        AS "satsNegative",
+      COUNT(*) FILTER (WHERE "sentiment" = 'positive')::int AS "votesPositive",
+      COUNT(*) FILTER (WHERE "sentiment" = 'negative')::int AS "votesNegative",
+      COUNT(*) FILTER (WHERE "sentiment" = 'neutral')::int AS "votesNeutral"
+    FROM "RankVote"
+    WHERE "timestamp" >= ${since}
+      ${platform ? Prisma.sql`AND "platform" = ${platform}` : Prisma.empty}
+    GROUP BY "platform", "profileId"
+    ORDER BY "ranking" DESC
+    LIMIT ${limit}`
+}
+
+/**
+ * Converts profile totals to JSON, serializing the satoshi amounts as strings
+ * @param profile - The profile totals
+ * @returns The profile totals as JSON
+ */
+function toProfileJSON(profile: ProfileTotals) {
+  return {
+    platform: profile.platform,
+    profileId: profile.profileId,
+    ranking: profile.ranking.toString(),
+    satsPositive: profile.satsPositive.toString(),
+    satsNegative: profile.satsNegative.toString(),
+    votesPositive: profile.votesPositive,
+    votesNegative: profile.votesNegative,
+    votesNeutral: profile.votesNeutral,
+  }
+}
+
+/**
+ * Converts a RANK vote to JSON, serializing the bigint fields as strings
+ * @param vote - The RANK vote
+ * @returns The vote as JSON
+ */
+function toVoteJSON(vote: RankVote) {
+  return {
+    ...vote,
+    timestamp: vote.timestamp.toString(),
+    sats: vote.sats.toString(),
+  }
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/rank'
+export { uri, router }
@@ -0,0 +1,144 @@
+import { Router } from 'express'
+import { prisma } from '../../modules/index.js'
+import { CHART_RANGES } from '../../indexer/charts.js'
+import { sendJSON } from '../index.js'
+import { NotFoundError } from '../errors.js'
+import { route, t } from '../schema.js'
+import type { ChartName, ChartRange } from '../../indexer/charts.js'
+
+const CHART_NAMES: ChartName[] = ['burned', 'inflation', 'transactions']
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Get a chart series derived from the indexed blocks
+ * @route GET /stats/charts/:chart
+ * @param chart - The chart to get: burned, inflation or transactions
+ * @query {string} [range] - day, week, month, quarter or year (default: day)
+ * @returns {Object} Object containing the series points and the range total
+ */
+router.get(
+  '/charts/:chart',
+  route(
+    {
+      summary: 'Get a chart series derived from the indexed blocks',
+      params: {
+        chart: t.string({ enum: CHART_NAMES, description: 'The chart' }),
+      },
+      query: {
+        range: t.optional(
+          t.string({
+            enum: Object.keys(CHART_RANGES) as ChartRange[],
+            description: 'Time range of the series',
+          }),
+          'day',
+        ),
+      },
+      response: t.object({
+        chart: t.string(),
+        range: t.string(),
+        series: t.array(t.object({}), { description: 'Series points' }),
+        total: t.string({ description: 'Total over the range' }),
+      }),
+    },
+    async (req, res) => {
+      const { chart } = req.input.params
+      const { range } = req.input.query
+
+      const data = await getChart(chart, range)
+      if (!data) {
+        throw new NotFoundError('chart not available yet')
+      }
+
+      sendJSON(res, { chart, range, ...data })
+    },
+  ),
+)
+
+/**
+ * Get supply, burn and transaction totals from the indexed blocks
+ * @route GET /stats/supply
+ * @returns {Object} Object containing the indexed totals, in satoshis
+ */
+router.get(
+  '/supply',
+  route(
+    {
+      summary: 'Get supply, burn and transaction totals',
+      response: t.object({
+        blocks: t.integer(),
+        supplyTotal: t.string(),
+        burnedTotal: t.string(),
+        circulatingSupply: t.string(),
+        txsTotal: t.integer(),
+      }),
+    },
+    async (_req, res) => {
+      const stat = await prisma.stat.findFirst()
+      if (!stat) {
+        throw new NotFoundError('stats not available yet')
+      }
+
+      sendJSON(res, {
+        blocks: stat.blocks,
+        supplyTotal: stat.supplyTotal.toString(),
+        burnedTotal: stat.burnedTotal.toString(),
+        circulatingSupply: (stat.supplyTotal - stat.burnedTotal).toString(),
+        txsTotal: stat.txsTotal,
+      })
+    },
+  ),
+)
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Gets the stored series and total of a chart for a range
+ * @param chart - The chart to get
+ * @param range - The time range of the series
+ * @returns The series and total, or null if the chart has not been computed
+ */
+async function getChart(chart: ChartName, range: ChartRange) {
+  // chart totals are stored per range, e.g. `burnedWeek`
+  const suffix = range.charAt(0).toUpperCase() + range.slice(1)
+  switch (chart) {
+    case 'burned': {
+      const row = await prisma.burnedChart.findFirst()
+      return row
+        ? {
+            series: row[range],
+            total: row[`burned${suffix}` as keyof typeof row]!.toString(),
+          }
+        : null
+    }
+    case 'inflation': {
+      const row = await prisma.inflationChart.findFirst()
+      return row
+        ? {
+            series: row[range],
+            total: row[`inflation${suffix}` as keyof typeof row]!.toString(),
+          }
+        : null
+    }
+    case 'transactions': {
+      const row = await prisma.transactionsChart.findFirst()
+      return row
+        ? {
+            series: row[range],
+            total: row[`txs${suffix}` as keyof typeof row]!.toString(),
+          }
+        : null
+    }
+  }
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/stats'
+export { uri, router }
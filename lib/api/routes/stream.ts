@@ -0,0 +1,351 @@
+import { Router } from 'express'
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { chronikClient, nngClient } from '../../modules/index.js'
+import { NNGTopic } from '../../modules/nng.js'
+import { mempool } from '../../indexer/mempool.js'
+import {
+  API_STREAM_HEARTBEAT_INTERVAL,
+  API_STREAM_MAX_BUFFERED_BYTES,
+  API_STREAM_MAX_CLIENTS,
+  API_STREAM_MAX_CLIENTS_PER_IP,
+  API_STREAM_MAX_SUBSCRIPTIONS,
+} from '../../../utils/constants.js'
+import { getSumBurnedSats } from '../../../utils/functions.js'
+import { logger } from '../../../utils/logger.js'
+import { HTTP } from '../index.js'
+import {
+  RateLimitError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../errors.js'
+import { toClientIP } from '../ratelimit.js'
+import { address, route, t } from '../schema.js'
+import { decodeOpReturn } from '../opreturn.js'
+import type { Response } from 'express'
+import type { Tx } from 'chronik-client'
+import type { NNGBlockMessage } from '../../modules/nng.js'
+
+const log = logger.child({ component: 'stream' })
+
+/**
+ * Client connected to the event stream, and what it is subscribed to
+ */
+interface Subscriber {
+  /** Express Response object the events are written to */
+  res: Response
+  /** Client IP, counted against `API_STREAM_MAX_CLIENTS_PER_IP` */
+  ip: string
+  /** Interval writing keep-alive comments */
+  heartbeat?: NodeJS.Timeout
+  /** Whether to send `block` events */
+  blocks: boolean
+  /** Whether to send `tx` events for every mempool transaction */
+  mempool: boolean
+  /** Watched addresses, keyed by their output script hex */
+  scripts: Map<string, string>
+  /** Watched RANK targets, as `platform:profileId` */
+  rankTargets: Set<string>
+}
+
+/**
+ * `rank` event for a RANK output of a transaction
+ */
+interface RankEvent {
+  /** The voted target, as `platform:profileId` */
+  target: string
+  /** The event data */
+  data: object
+}
+
+const SUBSCRIBERS = new Set<Subscriber>()
+/** Number of open event streams, keyed by client IP */
+const CLIENTS_PER_IP = new Map<string, number>()
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Open a Server-Sent Events stream of blocks, transactions and watched targets
+ * @route GET /stream
+ * @query {boolean} [blocks] - If true, sends a `block` event for each new block
+ * @query {boolean} [mempool] - If true, sends a `tx` event for each mempool transaction
+ * @query {string} [addresses] - Comma-separated addresses; sends an `address` event for each transaction involving them
+ * @query {string} [rank] - Comma-separated `platform:profileId` targets; sends a `rank` event for each vote on them
+ * @returns {EventStream} Stream of `block`, `tx`, `address` and `rank` events
+ */
+router.get(
+  '',
+  route(
+    {
+      summary: 'Open a Server-Sent Events stream',
+      description:
+        'Sends `block`, `tx`, `address` and `rank` events for the subscriptions given in the query. The number of open streams is limited per client, and clients that do not keep up with the events are disconnected.',
+      query: {
+        blocks: t.optional(
+          t.boolean({ description: 'Send a `block` event for each new block' }),
+          false,
+        ),
+        mempool: t.optional(
+          t.boolean({
+            description: 'Send a `tx` event for each mempool transaction',
+          }),
+          false,
+        ),
+        addresses: t.optional(
+          t.array(address('A watched address'), {
+            description:
+              'Send an `address` event for each transaction involving these addresses',
+          }),
+          [],
+        ),
+        rank: t.optional(
+          t.array(
+            t.string({
+              pattern: /^[^:]+:[^:]+$/,
+              format: 'RANK target',
+              description: 'A watched RANK target, as `platform:profileId`',
+            }),
+            {
+              description:
+                'Send a `rank` event for each vote on these RANK targets',
+            },
+          ),
+          [],
+        ),
+      },
+      contentType: 'text/event-stream',
+    },
+    (req, res) => {
+      const { addresses, rank: rankTargets } = req.input.query
+      if (
+        addresses.length + rankTargets.length >
+        API_STREAM_MAX_SUBSCRIPTIONS
+      ) {
+        throw new ValidationError(
+          `at most ${API_STREAM_MAX_SUBSCRIPTIONS} addresses and RANK targets may be watched`,
+        )
+      }
+
+      const ip = toClientIP(req) ?? ''
+      if (SUBSCRIBERS.size >= API_STREAM_MAX_CLIENTS) {
+        throw new ServiceUnavailableError('too many open event streams')
+      }
+      if ((CLIENTS_PER_IP.get(ip) ?? 0) >= API_STREAM_MAX_CLIENTS_PER_IP) {
+        throw new RateLimitError(
+          `at most ${API_STREAM_MAX_CLIENTS_PER_IP} event streams may be open per client`,
+        )
+      }
+
+      const scripts = new Map<string, string>()
+      for (const address of addresses) {
+        scripts.set(Bitcore.Script.fromAddress(address).toHex(), address)
+      }
+
+      const subscriber: Subscriber = {
+        res,
+        ip,
+        blocks: req.input.query.blocks,
+        mempool: req.input.query.mempool,
+        scripts,
+        rankTargets: new Set(rankTargets),
+      }
+
+      res.status(HTTP.OK).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+        // disable response buffering in nginx
+        'X-Accel-Buffering': 'no',
+      })
+      res.flushHeaders()
+      res.write(': connected\n\n')
+
+      subscriber.heartbeat = setInterval(
+        () => write(subscriber, ': heartbeat\n\n'),
+        API_STREAM_HEARTBEAT_INTERVAL,
+      )
+      SUBSCRIBERS.add(subscriber)
+      CLIENTS_PER_IP.set(ip, (CLIENTS_PER_IP.get(ip) ?? 0) + 1)
+      req.on('close', () => removeSubscriber(subscriber))
+    },
+  ),
+)
+
+// ======================================
+// Event sources
+// ======================================
+
+mempool.on('add', (tx: Tx) => {
+  if (SUBSCRIBERS.size === 0) {
+    return
+  }
+  const votes = toRankEvents(tx)
+  for (const subscriber of SUBSCRIBERS) {
+    if (subscriber.mempool) {
+      sendEvent(subscriber, 'tx', {
+        txid: tx.txid,
+        size: tx.size,
+        sumBurnedSats: getSumBurnedSats(tx).toString(),
+        timeFirstSeen: tx.timeFirstSeen,
+      })
+    }
+    notifyWatchers(subscriber, tx, votes)
+  }
+})
+
+nngClient.on(NNGTopic.BLOCK_CONNECTED, async (msg: NNGBlockMessage) => {
+  if (SUBSCRIBERS.size === 0) {
+    return
+  }
+  try {
+    const block = await chronikClient.block(msg.hash)
+    const txs = block.txs.map(tx => ({ tx, votes: toRankEvents(tx) }))
+    for (const subscriber of SUBSCRIBERS) {
+      if (subscriber.blocks) {
+        sendEvent(subscriber, 'block', block.blockInfo)
+      }
+      for (const { tx, votes } of txs) {
+        notifyWatchers(subscriber, tx, votes)
+      }
+    }
+  } catch (e) {
+    log.error('block event failed', {
+      hash: msg.hash,
+      error: (e as Error).message,
+    })
+  }
+})
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Writes a Server-Sent Event to a subscriber
+ * @param subscriber - The subscriber to send the event to
+ * @param event - The event name
+ * @param data - The event data, serialized as JSON
+ */
+function sendEvent(subscriber: Subscriber, event: string, data: object) {
+  write(subscriber, `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+}
+
+/**
+ * Writes to a subscriber's stream, disconnecting the subscriber instead if
+ * it is not reading fast enough and more than `API_STREAM_MAX_BUFFERED_BYTES`
+ * are waiting to be sent
+ * @param subscriber - The subscriber to write to
+ * @param chunk - The text to write
+ */
+function write(subscriber: Subscriber, chunk: string) {
+  if (!SUBSCRIBERS.has(subscriber)) {
+    return
+  }
+  if (subscriber.res.writableLength > API_STREAM_MAX_BUFFERED_BYTES) {
+    log.warn('slow client disconnected', {
+      ip: subscriber.ip,
+      buffered: subscriber.res.writableLength,
+    })
+    removeSubscriber(subscriber)
+    subscriber.res.destroy()
+    return
+  }
+  subscriber.res.write(chunk)
+}
+
+/**
+ * Stops sending events to a subscriber, releasing its connection slot
+ * @param subscriber - The subscriber to remove
+ */
+function removeSubscriber(subscriber: Subscriber) {
+  if (!SUBSCRIBERS.delete(subscriber)) {
+    return
+  }
+  clearInterval(subscriber.heartbeat)
+  const count = (CLIENTS_PER_IP.get(subscriber.ip) ?? 1) - 1
+  if (count > 0) {
+    CLIENTS_PER_IP.set(subscriber.ip, count)
+  } else {
+    CLIENTS_PER_IP.delete(subscriber.ip)
+  }
+}
+
+/**
+ * Sends `address` and `rank` events for a transaction that involves any of
+ * the subscriber's watched addresses or RANK targets
+ * @param subscriber - The subscriber to notify
+ * @param tx - The mempool or confirmed transaction
+ * @param votes - The RANK votes of the transaction, decoded once for every subscriber
+ */
+function notifyWatchers(subscriber: Subscriber, tx: Tx, votes: RankEvent[]) {
+  if (subscriber.scripts.size > 0) {
+    const scripts = new Set([
+      ...tx.inputs.map(input => input.outputScript),
+      ...tx.outputs.map(output => output.outputScript),
+    ])
+    for (const [script, address] of subscriber.scripts) {
+      if (scripts.has(script)) {
+        sendEvent(subscriber, 'address', {
+          address,
+          txid: tx.txid,
+          confirmed: !!tx.block,
+          height: tx.block?.height ?? null,
+        })
+      }
+    }
+  }
+
+  for (const { target, data } of votes) {
+    if (subscriber.rankTargets.has(target)) {
+      sendEvent(subscriber, 'rank', data)
+    }
+  }
+}
+
+/**
+ * Decodes the RANK votes of a transaction into `rank` events
+ * @param tx - The mempool or confirmed transaction
+ * @returns The event of each RANK output, with the target it votes on
+ */
+function toRankEvents(tx: Tx): RankEvent[] {
+  const events: RankEvent[] = []
+  for (const output of tx.outputs) {
+    // 0x6a = OP_RETURN
+    if (!output.outputScript.startsWith('6a')) {
+      continue
+    }
+    const decoded = decodeOpReturn(Buffer.from(output.outputScript, 'hex'))
+    if (decoded?.protocol !== 'RANK') {
+      continue
+    }
+    const { protocol: _protocol, ...rankOutput } = decoded
+    events.push({
+      target: `${rankOutput.platform}:${rankOutput.profileId}`,
+      data: {
+        ...rankOutput,
+        txid: tx.txid,
+        sats: output.value,
+        confirmed: !!tx.block,
+      },
+    })
+  }
+  return events
+}
+
+/**
+ * Ends every open event stream, so the API can drain when stopping
+ */
+function stop() {
+  for (const subscriber of SUBSCRIBERS) {
+    removeSubscriber(subscriber)
+    subscriber.res.end()
+  }
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/stream'
+export { uri, router, stop }
@@ -0,0 +1,287 @@
+import { Router } from 'express'
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { chronikClient, rpcClient } from '../../modules/index.js'
+import {
+  API_TX_MAX_SIZE,
+  API_UPSTREAM_CONCURRENCY,
+} from '../../../utils/constants.js'
+import { mapConcurrent } from '../../../utils/functions.js'
+import { sendJSON } from '../index.js'
+import {
+  NotFoundError,
+  toAPIError,
+  TxRejectedError,
+  UpstreamUnavailableError,
+} from '../errors.js'
+import { route, t } from '../schema.js'
+import { decodeOpReturn } from '../opreturn.js'
+
+/**
+ * RANK vote found in an OP_RETURN output of a submitted transaction
+ */
+interface RankOutput {
+  /** Index of the OP_RETURN output */
+  outIdx: number
+  /** Platform of the profile, e.g. twitter */
+  platform: string
+  /** Profile ID */
+  profileId: string
+  /** Post ID, if the vote targets a post */
+  postId: string | null
+  /** positive, negative or neutral */
+  sentiment: string
+  /** Burned sats */
+  sats: number
+}
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Validate and broadcast a signed transaction
+ *
+ * The transaction is decoded and checked for dust outputs and a fee below the
+ * min relay fee before it is sent to the node. If the node cannot be reached,
+ * the transaction is broadcast through Chronik instead.
+ * @route POST /tx/broadcast
+ * @body {string} rawTx - The signed transaction, hex-encoded
+ * @body {boolean} [dryRun] - Only run `testmempoolaccept` without broadcasting (default: false)
+ * @returns {Object} Object containing the txid, size, fee and any RANK votes of the transaction
+ */
+router.post(
+  '/broadcast',
+  route(
+    {
+      summary: 'Validate and broadcast a signed transaction',
+      description:
+        'The transaction is checked for dust outputs and a fee below the min relay fee before it is sent to the node. If the node cannot be reached, it is broadcast through Chronik instead.',
+      body: t.object({
+        rawTx: t.string({
+          pattern: /^([0-9a-fA-F]{2})+$/,
+          format: 'hex string',
+          maxLength: API_TX_MAX_SIZE * 2,
+          description: 'The signed transaction, hex-encoded',
+        }),
+        dryRun: t.optional(
+          t.boolean({
+            description: 'Only run `testmempoolaccept`, without broadcasting',
+          }),
+          false,
+        ),
+      }),
+      response: t.object({
+        txid: t.string(),
+        size: t.integer({ description: 'Size, in bytes' }),
+        fee: t.integer({ description: 'Fee, in sats' }),
+        feeRate: t.number({ description: 'Fee rate, in sats per byte' }),
+        rank: t.array(
+          t.object({
+            outIdx: t.integer(),
+            platform: t.string(),
+            profileId: t.string(),
+            postId: t.nullable(t.string()),
+            sentiment: t.string(),
+            sats: t.integer(),
+          }),
+          { description: 'RANK votes of the transaction' },
+        ),
+        broadcastVia: t.optional(t.string({ enum: ['rpc', 'chronik'] })),
+        dryRun: t.optional(t.boolean()),
+        allowed: t.optional(t.boolean()),
+      }),
+    },
+    async (req, res) => {
+      const { rawTx, dryRun } = req.input.body
+
+      const tx = decodeTx(rawTx)
+      const txid = tx.txid
+      validateOutputs(tx)
+      const size = rawTx.length / 2
+      const fee = (await getInputAmount(tx)) - tx.outputAmount
+      const minFee = Math.ceil((size * Bitcore.Transaction.FEE_PER_KB) / 1000)
+      if (fee < minFee) {
+        throw new TxRejectedError('fee is below the min relay fee', {
+          txid,
+          reason: 'insufficient-fee',
+          fee,
+          minFee,
+        })
+      }
+      const result = {
+        txid,
+        size,
+        fee,
+        feeRate: fee / size,
+        rank: getRankOutputs(tx),
+      }
+
+      if (dryRun) {
+        const { allowed, 'reject-reason': rejectReason } =
+          await rpcClient.testMempoolAccept(rawTx)
+        if (!allowed) {
+          throw new TxRejectedError(rejectReason ?? 'rejected by the mempool', {
+            txid,
+            reason: 'mempool-policy',
+          })
+        }
+        return sendJSON(res, { ...result, dryRun: true, allowed })
+      }
+
+      sendJSON(res, { ...result, broadcastVia: await broadcast(rawTx) })
+    },
+  ),
+)
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Decodes a raw transaction, rejecting trailing bytes and transactions
+ * without inputs or outputs
+ * @param rawTx - The transaction, hex-encoded
+ * @returns The decoded transaction
+ */
+function decodeTx(rawTx: string): Bitcore.Transaction {
+  let tx: Bitcore.Transaction
+  try {
+    tx = new Bitcore.Transaction(rawTx)
+  } catch (e) {
+    const message = `malformed transaction: ${(e as Error).message}`
+    throw new TxRejectedError(message, { reason: 'malformed' })
+  }
+  if (tx.toBuffer().toString('hex') !== rawTx.toLowerCase()) {
+    throw new TxRejectedError('malformed transaction: trailing bytes', {
+      reason: 'malformed',
+    })
+  }
+  if (tx.inputs.length === 0) {
+    throw new TxRejectedError('transaction has no inputs', {
+      txid: tx.txid,
+      reason: 'no-inputs',
+    })
+  }
+  if (tx.outputs.length === 0) {
+    throw new TxRejectedError('transaction has no outputs', {
+      txid: tx.txid,
+      reason: 'no-outputs',
+    })
+  }
+  return tx
+}
+
+/**
+ * Throws a TxRejectedError if an output other than OP_RETURN is below the
+ * dust amount
+ * @param tx - The decoded transaction
+ */
+function validateOutputs(tx: Bitcore.Transaction) {
+  tx.outputs.forEach((output, outIdx) => {
+    if (
+      !output.script.isDataOut() &&
+      output.satoshis < Bitcore.Transaction.DUST_AMOUNT
+    ) {
+      throw new TxRejectedError('output is below the dust amount', {
+        txid: tx.txid,
+        reason: 'dust',
+        outIdx,
+        dustAmount: Bitcore.Transaction.DUST_AMOUNT,
+      })
+    }
+  })
+}
+
+/**
+ * Sums the value of the outputs spent by a transaction, looking up each
+ * previous transaction in Chronik
+ * @param tx - The decoded transaction
+ * @returns The total input value, in satoshis
+ */
+async function getInputAmount(tx: Bitcore.Transaction): Promise<number> {
+  const prevTxids = [
+    ...new Set(tx.inputs.map(input => input.prevTxId.toString('hex'))),
+  ]
+  const prevTxs = new Map(
+    await mapConcurrent(prevTxids, API_UPSTREAM_CONCURRENCY, async prevTxid => {
+      try {
+        return [prevTxid, await chronikClient.tx(prevTxid)] as const
+      } catch (e) {
+        if (toAPIError(e) instanceof NotFoundError) {
+          throw new TxRejectedError('spent output does not exist', {
+            txid: tx.txid,
+            reason: 'missing-inputs',
+            prevTxid,
+          })
+        }
+        throw e
+      }
+    }),
+  )
+  return tx.inputs.reduce((acc, input) => {
+    const prevTxid = input.prevTxId.toString('hex')
+    const prevOutput = prevTxs.get(prevTxid)?.outputs[input.outputIndex]
+    if (!prevOutput) {
+      throw new TxRejectedError('spent output does not exist', {
+        txid: tx.txid,
+        reason: 'missing-inputs',
+        prevTxid,
+        outIdx: input.outputIndex,
+      })
+    }
+    return acc + Number(prevOutput.value)
+  }, 0)
+}
+
+/**
+ * Parses the RANK votes in the OP_RETURN outputs of a transaction
+ * @param tx - The decoded transaction
+ * @returns The RANK votes, if any
+ */
+function getRankOutputs(tx: Bitcore.Transaction): RankOutput[] {
+  const votes: RankOutput[] = []
+  tx.outputs.forEach((output, outIdx) => {
+    if (!output.script.isDataOut()) {
+      return
+    }
+    const rankOutput = decodeOpReturn(Buffer.from(output.scriptBuffer))
+    if (rankOutput?.protocol !== 'RANK') {
+      return
+    }
+    votes.push({
+      outIdx,
+      platform: rankOutput.platform,
+      profileId: rankOutput.profileId,
+      postId: rankOutput.postId ?? null,
+      sentiment: rankOutput.sentiment,
+      sats: output.satoshis,
+    })
+  })
+  return votes
+}
+
+/**
+ * Broadcasts a transaction through the node, falling back to Chronik if the
+ * node cannot be reached
+ * @param rawTx - The transaction, hex-encoded
+ * @returns The service the transaction was broadcast through
+ */
+async function broadcast(rawTx: string): Promise<'rpc' | 'chronik'> {
+  try {
+    await rpcClient.sendRawTransaction(rawTx)
+    return 'rpc'
+  } catch (e) {
+    if (!(toAPIError(e) instanceof UpstreamUnavailableError)) {
+      throw e
+    }
+  }
+  await chronikClient.broadcastTx(rawTx)
+  return 'chronik'
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/tx'
+export { uri, router }
@@ -0,0 +1,342 @@
+import { Router } from 'express'
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { chronikClient } from '../../modules/index.js'
+import {
+  API_WALLET_GAP_LIMIT,
+  API_WALLET_MAX_ADDRESSES,
+  API_WALLET_MAX_DERIVED,
+  API_WALLET_MAX_GAP_LIMIT,
+  API_WALLET_RESULT_COUNT,
+  API_UPSTREAM_CONCURRENCY,
+} from '../../../utils/constants.js'
+import { mapConcurrent } from '../../../utils/functions.js'
+import { sendJSON } from '../index.js'
+import { responseCache } from '../cache.js'
+import { address, pagination, route, t } from '../schema.js'
+import type { ScriptType, Utxo } from 'chronik-client'
+
+/**
+ * Address derived from an xpub that has transaction history
+ */
+interface DerivedAddress {
+  /** The XAddress */
+  address: string
+  /** Derivation path relative to the xpub, e.g. `m/0/5` */
+  path: string
+  /** 0 for receive addresses, 1 for change addresses */
+  chain: number
+  /** Index of the address in its chain */
+  index: number
+}
+
+const MAX_PAGE_SIZE = 40
+
+// ======================================
+// Router setup
+// ======================================
+const router = Router()
+
+/**
+ * Get the unspent outputs of an address
+ * @route GET /wallet/:address/utxos
+ * @param address - The address to get the UTXOs of
+ * @query {number} [page] - Page number (default: 1)
+ * @query {number} [pageSize] - Number of UTXOs per page (default: 10, max: 40)
+ * @returns {Object} Object containing a page of UTXOs, newest first, with confirmation counts
+ */
+router.get(
+  '/:address/utxos',
+  route(
+    {
+      summary: 'Get the unspent outputs of an address',
+      params: { address: address('The address') },
+      query: pagination(API_WALLET_RESULT_COUNT, MAX_PAGE_SIZE),
+      response: t.object({
+        address: t.string(),
+        balance: t.string({ description: 'Balance, in sats' }),
+        utxos: t.array(
+          t.object({
+            txid: t.string(),
+            outIdx: t.integer(),
+            value: t.string(),
+            blockHeight: t.integer({ description: '-1 if unconfirmed' }),
+            isCoinbase: t.boolean(),
+            confirmations: t.integer(),
+          }),
+        ),
+        numPages: t.integer(),
+      }),
+    },
+    async (req, res) => {
+      const { address } = req.input.params
+      const { page, pageSize } = req.input.query
+
+      const [utxos, tipHeight] = await Promise.all([
+        getUtxos(address),
+        getTipHeight(),
+      ])
+      // unconfirmed UTXOs have a block height of -1, so sort them first
+      const sortHeight = (utxo: Utxo) =>
+        utxo.blockHeight === -1 ? Number.MAX_SAFE_INTEGER : utxo.blockHeight
+      utxos.sort((a, b) => sortHeight(b) - sortHeight(a))
+      const start = (page - 1) * pageSize
+
+      sendJSON(res, {
+        address,
+        balance: sumUtxos(utxos).toString(),
+        utxos: utxos.slice(start, start + pageSize).map(utxo => ({
+          txid: utxo.outpoint.txid,
+          outIdx: utxo.outpoint.outIdx,
+          value: utxo.value,
+          blockHeight: utxo.blockHeight,
+          isCoinbase: utxo.isCoinbase,
+          confirmations:
+            utxo.blockHeight === -1 ? 0 : tipHeight - utxo.blockHeight + 1,
+        })),
+        numPages: Math.ceil(utxos.length / pageSize),
+      })
+    },
+  ),
+)
+
+/**
+ * Get the balances of a batch of addresses
+ * @route POST /wallet/balances
+ * @body {string[]} addresses - Addresses to get the balances of (max: 20)
+ * @returns {Object} Object containing the balance and UTXO count of each address, and their total
+ */
+router.post(
+  '/balances',
+  route(
+    {
+      summary: 'Get the balances of a batch of addresses',
+      body: t.object({
+        addresses: t.array(address('An address'), {
+          minItems: 1,
+          maxItems: API_WALLET_MAX_ADDRESSES,
+          description: 'Addresses to get the balances of',
+        }),
+      }),
+      response: t.object({
+        balances: t.array(
+          t.object({
+            address: t.string(),
+            balance: t.string(),
+            utxoCount: t.integer(),
+          }),
+        ),
+        total: t.string({ description: 'Total balance, in sats' }),
+      }),
+    },
+    async (req, res) => {
+      const balances = await mapConcurrent(
+        [...new Set(req.input.body.addresses)],
+        API_UPSTREAM_CONCURRENCY,
+        async address => {
+          const utxos = await getUtxos(address)
+          return { address, balance: sumUtxos(utxos), utxoCount: utxos.length }
+        },
+      )
+
+      sendJSON(res, {
+        balances: balances.map(b => ({ ...b, balance: b.balance.toString() })),
+        total: balances.reduce((acc, b) => acc + b.balance, 0n).toString(),
+      })
+    },
+  ),
+)
+
+/**
+ * Discover the used addresses of an extended public key
+ *
+ * Derives receive (`m/0/i`) and change (`m/1/i`) addresses until `gapLimit`
+ * consecutive addresses of each chain have no transaction history.
+ * @route GET /wallet/xpub/:xpub
+ * @param xpub - The extended public key
+ * @query {number} [gapLimit] - Consecutive unused addresses before scanning stops (default: 20, max: 100)
+ * @returns {Object} Object containing the used addresses with their balances, the total balance and the next unused indexes
+ */
+router.get(
+  '/xpub/:xpub',
+  route(
+    {
+      summary: 'Discover the used addresses of an extended public key',
+      description:
+        'Derives receive (`m/0/i`) and change (`m/1/i`) addresses until `gapLimit` consecutive addresses of each chain have no transaction history.',
+      params: {
+        xpub: t.string({
+          format: 'xpub',
+          validate: value => Bitcore.HDPublicKey.isValidSerialized(value),
+          description: 'The extended public key',
+        }),
+      },
+      query: {
+        gapLimit: t.optional(
+          t.integer({
+            min: 1,
+            max: API_WALLET_MAX_GAP_LIMIT,
+            clamp: true,
+            description: 'Consecutive unused addresses before scanning stops',
+          }),
+          API_WALLET_GAP_LIMIT,
+        ),
+      },
+      response: t.object({
+        addresses: t.array(
+          t.object({
+            address: t.string(),
+            path: t.string(),
+            chain: t.integer(),
+            index: t.integer(),
+            balance: t.string(),
+          }),
+        ),
+        balance: t.string({ description: 'Total balance, in sats' }),
+        nextReceiveIndex: t.integer(),
+        nextChangeIndex: t.integer(),
+      }),
+    },
+    async (req, res) => {
+      const { gapLimit } = req.input.query
+
+      const hdPublicKey = Bitcore.HDPublicKey.fromString(req.input.params.xpub)
+      // the chains are scanned one after the other, so that at most
+      // `API_UPSTREAM_CONCURRENCY` lookups are in flight for the request
+      const receive = await scanChain(hdPublicKey, 0, gapLimit)
+      const change = await scanChain(hdPublicKey, 1, gapLimit)
+      const addresses = await mapConcurrent(
+        [...receive, ...change],
+        API_UPSTREAM_CONCURRENCY,
+        async derived => {
+          const utxos = await getUtxos(derived.address)
+          return { ...derived, balance: sumUtxos(utxos) }
+        },
+      )
+
+      sendJSON(res, {
+        addresses: addresses.map(a => ({
+          ...a,
+          balance: a.balance.toString(),
+        })),
+        balance: addresses.reduce((acc, a) => acc + a.balance, 0n).toString(),
+        nextReceiveIndex: nextIndex(receive),
+        nextChangeIndex: nextIndex(change),
+      })
+    },
+  ),
+)
+
+// ======================================
+// Function definitions
+// ======================================
+
+/**
+ * Gets the Chronik script type and payload of an address
+ * @param address - The address
+ * @returns The script type and hex-encoded payload
+ */
+function toScript(address: string) {
+  const script = Bitcore.Script.fromAddress(address)
+  return {
+    type: script.getType() as ScriptType,
+    payload: script.getData().toString('hex'),
+  }
+}
+
+/**
+ * Gets every unspent output of an address
+ * @param address - The address
+ * @returns The UTXOs of the address
+ */
+async function getUtxos(address: string): Promise<Utxo[]> {
+  const { type, payload } = toScript(address)
+  const scriptUtxos = await chronikClient.script(type, payload).utxos()
+  return scriptUtxos.flatMap(s => s.utxos)
+}
+
+/**
+ * Sums the value of UTXOs
+ * @param utxos - The UTXOs to sum
+ * @returns The total value, in satoshis
+ */
+function sumUtxos(utxos: Utxo[]): bigint {
+  return utxos.reduce((acc, utxo) => acc + BigInt(utxo.value), 0n)
+}
+
+/**
+ * Gets the height of the chain tip, preferring the height tracked by the
+ * response cache
+ * @returns The tip height
+ */
+async function getTipHeight(): Promise<number> {
+  return (
+    responseCache.tipHeight ?? (await chronikClient.blockchainInfo()).tipHeight
+  )
+}
+
+/**
+ * Derives the addresses of one chain of an xpub until `gapLimit` consecutive
+ * addresses have no transaction history, checking each batch with up to
+ * `API_UPSTREAM_CONCURRENCY` lookups at once
+ * @param hdPublicKey - The extended public key
+ * @param chain - 0 for receive addresses, 1 for change addresses
+ * @param gapLimit - Number of consecutive unused addresses before stopping
+ * @returns The addresses with transaction history
+ */
+async function scanChain(
+  hdPublicKey: Bitcore.HDPublicKey,
+  chain: number,
+  gapLimit: number,
+): Promise<DerivedAddress[]> {
+  const chainKey = hdPublicKey.deriveChild(chain)
+  const used: DerivedAddress[] = []
+  let unused = 0
+  let index = 0
+  while (unused < gapLimit && index < API_WALLET_MAX_DERIVED) {
+    const end = Math.min(index + gapLimit - unused, API_WALLET_MAX_DERIVED)
+    const batch = await mapConcurrent(
+      Array.from({ length: end - index }, (_, i) => index + i),
+      API_UPSTREAM_CONCURRENCY,
+      async childIndex => {
+        const derived: DerivedAddress = {
+          address: chainKey
+            .deriveChild(childIndex)
+            .publicKey.toAddress()
+            .toXAddress(),
+          path: `m/${chain}/${childIndex}`,
+          chain,
+          index: childIndex,
+        }
+        const { type, payload } = toScript(derived.address)
+        const history = await chronikClient.script(type, payload).history(0, 1)
+        return { derived, isUsed: history.txs.length > 0 }
+      },
+    )
+    for (const { derived, isUsed } of batch) {
+      if (isUsed) {
+        used.push(derived)
+        unused = 0
+      } else {
+        unused++
+      }
+    }
+    index = end
+  }
+  return used
+}
+
+/**
+ * Gets the index following the last used address of a chain
+ * @param used - The used addresses of the chain
+ * @returns The next unused index
+ */
+function nextIndex(used: DerivedAddress[]): number {
+  const last = used[used.length - 1]
+  return last ? last.index + 1 : 0
+}
+
+// ======================================
+// Export configured router and URI
+// ======================================
+const uri = '/wallet'
+export { uri, router }
@@ -0,0 +1,648 @@
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { asyncHandler, ValidationError } from './errors.js'
+import type { NextFunction, Request, RequestHandler, Response } from 'express'
+
+/**
+ * JSON Schema of a value, as included in the OpenAPI document
+ */
+export type JSONSchema = Record<string, unknown>
+
+/**
+ * Schema of a value, which documents it and parses it from a request
+ */
+export interface Schema<T> {
+  /** JSON Schema of the value */
+  readonly json: JSONSchema
+  /** Whether the value may be omitted */
+  readonly optional: boolean
+  /**
+   * Parses and validates a value, throwing a SchemaError if it is invalid
+   * @param value - The raw value
+   * @param coerce - Whether to convert strings, as path and query values are
+   * @returns The parsed value
+   */
+  parse(value: unknown, coerce: boolean): T
+}
+
+/**
+ * Schemas of the named values of a request, e.g. its query parameters
+ */
+export type Shape = Record<string, Schema<unknown>>
+
+/**
+ * Type of the values parsed by a schema
+ */
+export type Infer<S> = S extends Schema<infer T> ? T : never
+
+/**
+ * Type of the values parsed by the schemas of a shape
+ */
+export type InferShape<P extends Shape> = { [K in keyof P]: Infer<P[K]> }
+
+/**
+ * Schema of a route, used to validate its requests and document it in the
+ * OpenAPI document
+ */
+export interface RouteSchema {
+  /** Short summary of what the route does */
+  summary: string
+  /** Longer description of the route, in Markdown */
+  description?: string
+  /** Path parameters */
+  params?: Shape
+  /** Query parameters */
+  query?: Shape
+  /** JSON request body */
+  body?: Schema<unknown>
+  /** Successful response body */
+  response?: Schema<unknown>
+  /** Content type of successful responses (default: application/json) */
+  contentType?: string
+}
+
+/**
+ * Parsed path parameters, query parameters and body of a request
+ */
+export interface RouteInput<S extends RouteSchema> {
+  params: S['params'] extends Shape ? InferShape<S['params']> : object
+  query: S['query'] extends Shape ? InferShape<S['query']> : object
+  body: S['body'] extends Schema<infer T> ? T : undefined
+}
+
+/**
+ * Route handler carrying the schema it validates requests with
+ */
+export type DocumentedHandler = RequestHandler & { schema: RouteSchema }
+
+/**
+ * Where an invalid request value was found
+ */
+type InputLocation = 'path' | 'query' | 'body'
+
+/**
+ * Invalid value found while parsing a request
+ */
+interface InputError {
+  /** Where the value was found */
+  in: InputLocation
+  /** Name of the value, with the path to nested values, e.g. `addresses[2]` */
+  name: string
+  /** Why the value is invalid */
+  message: string
+}
+
+/**
+ * Thrown by schemas when a value is invalid
+ * @extends {Error}
+ */
+class SchemaError extends Error {
+  /** Path to the invalid nested value, e.g. `[2]` or `.rawTx` */
+  public readonly path: string
+
+  constructor(message: string, path = '') {
+    super(message)
+    this.path = path
+  }
+}
+
+/**
+ * Documentation fields shared by every schema
+ */
+interface SchemaOptions {
+  /** Description of the value */
+  description?: string
+  /** Example of the value */
+  example?: unknown
+}
+
+/**
+ * Options of string schemas
+ */
+interface StringOptions<T extends string> extends SchemaOptions {
+  /** Allowed values */
+  enum?: readonly T[]
+  /** Pattern the value must match */
+  pattern?: RegExp
+  /** Min length of the value */
+  minLength?: number
+  /** Max length of the value */
+  maxLength?: number
+  /** Name of the format, e.g. `address`, used in the docs and error messages */
+  format?: string
+  /** Additional check of the value, e.g. that an address is valid */
+  validate?: (value: string) => boolean
+}
+
+/**
+ * Options of integer and number schemas
+ */
+interface NumberOptions extends SchemaOptions {
+  /** Min value */
+  min?: number
+  /** Max value */
+  max?: number
+  /** Clamp values outside of the range rather than rejecting them */
+  clamp?: boolean
+}
+
+/**
+ * Options of array schemas
+ */
+interface ArrayOptions extends SchemaOptions {
+  /** Min number of items */
+  minItems?: number
+  /** Max number of items */
+  maxItems?: number
+}
+
+/**
+ * Creates a string schema
+ * @param options - Allowed values and documentation of the string
+ * @returns The string schema
+ */
+function string<T extends string = string>(
+  options: StringOptions<T> = {},
+): Schema<T> {
+  const {
+    enum: values,
+    pattern,
+    minLength,
+    maxLength,
+    format,
+    validate,
+    ...doc
+  } = options
+  return {
+    json: {
+      type: 'string',
+      enum: values,
+      pattern: pattern?.source,
+      minLength,
+      maxLength,
+      format,
+      ...doc,
+    },
+    optional: false,
+    parse(value) {
+      if (typeof value !== 'string') {
+        throw new SchemaError('must be a string')
+      }
+      if (values && !values.includes(value as T)) {
+        throw new SchemaError(`must be one of: ${values.join(', ')}`)
+      }
+      if (minLength !== undefined && value.length < minLength) {
+        throw new SchemaError(`must be at least ${minLength} characters`)
+      }
+      if (maxLength !== undefined && value.length > maxLength) {
+        throw new SchemaError(`must be at most ${maxLength} characters`)
+      }
+      if ((pattern && !pattern.test(value)) || (validate && !validate(value))) {
+        throw new SchemaError(
+          format ? `must be a valid ${format}` : `must match ${pattern}`,
+        )
+      }
+      return value as T
+    },
+  }
+}
+
+/**
+ * Creates an integer schema; path and query values are parsed from decimal
+ * strings
+ * @param options - Range and documentation of the integer
+ * @returns The integer schema
+ */
+function integer(options: NumberOptions = {}): Schema<number> {
+  return numeric('integer', options)
+}
+
+/**
+ * Creates a number schema; path and query values are parsed from decimal
+ * strings
+ * @param options - Range and documentation of the number
+ * @returns The number schema
+ */
+function number(options: NumberOptions = {}): Schema<number> {
+  return numeric('number', options)
+}
+
+/**
+ * Creates an integer or number schema
+ * @param type - `integer` or `number`
+ * @param options - Range and documentation of the value
+ * @returns The schema
+ */
+function numeric(
+  type: 'integer' | 'number',
+  { min, max, clamp, ...doc }: NumberOptions,
+): Schema<number> {
+  return {
+    json: { type, minimum: min, maximum: max, ...doc },
+    optional: false,
+    parse(value, coerce) {
+      const num =
+        coerce && typeof value === 'string' && /^-?\d+(\.\d+)?$/.test(value)
+          ? Number(value)
+          : value
+      if (
+        typeof num !== 'number' ||
+        !(type === 'integer' ? Number.isSafeInteger(num) : Number.isFinite(num))
+      ) {
+        throw new SchemaError(
+          `must be ${type === 'integer' ? 'an' : 'a'} ${type}`,
+        )
+      }
+      if (clamp) {
+        return Math.min(Math.max(num, min ?? num), max ?? num)
+      }
+      if (min !== undefined && num < min) {
+        throw new SchemaError(`must be at least ${min}`)
+      }
+      if (max !== undefined && num > max) {
+        throw new SchemaError(`must be at most ${max}`)
+      }
+      return num
+    },
+  }
+}
+
+/**
+ * Creates a boolean schema; path and query values are parsed from `1`,
+ * `true`, `0` and `false`
+ * @param options - Documentation of the boolean
+ * @returns The boolean schema
+ */
+function boolean(options: SchemaOptions = {}): Schema<boolean> {
+  return {
+    json: { type: 'boolean', ...options },
+    optional: false,
+    parse(value, coerce) {
+      if (coerce && (value === '1' || value === 'true')) {
+        return true
+      }
+      if (coerce && (value === '0' || value === 'false')) {
+        return false
+      }
+      if (typeof value !== 'boolean') {
+        throw new SchemaError('must be a boolean')
+      }
+      return value
+    },
+  }
+}
+
+/**
+ * Creates an array schema; path and query values are parsed from
+ * comma-separated lists
+ * @param items - Schema of each item
+ * @param options - Length and documentation of the array
+ * @returns The array schema
+ */
+function array<T>(items: Schema<T>, options: ArrayOptions = {}): Schema<T[]> {
+  const { minItems, maxItems, ...doc } = options
+  return {
+    json: { type: 'array', items: items.json, minItems, maxItems, ...doc },
+    optional: false,
+    parse(value, coerce) {
+      const list =
+        coerce && typeof value === 'string'
+          ? value
+              .split(',')
+              .map(item => item.trim())
+              .filter(Boolean)
+          : value
+      if (!Array.isArray(list)) {
+        throw new SchemaError('must be an array')
+      }
+      if (minItems !== undefined && list.length < minItems) {
+        throw new SchemaError(`must have at least ${minItems} items`)
+      }
+      if (maxItems !== undefined && list.length > maxItems) {
+        throw new SchemaError(`must have at most ${maxItems} items`)
+      }
+      return list.map((item, i) => {
+        try {
+          return parseValue(items, item, coerce)
+        } catch (e) {
+          throw nestError(e, `[${i}]`)
+        }
+      })
+    },
+  }
+}
+
+/**
+ * Creates an object schema
+ * @param shape - Schema of each property
+ * @param options - Documentation of the object
+ * @returns The object schema
+ */
+function object<P extends Shape>(
+  shape: P,
+  options: SchemaOptions = {},
+): Schema<InferShape<P>> {
+  const required = Object.keys(shape).filter(key => !shape[key]!.optional)
+  return {
+    json: {
+      type: 'object',
+      properties: Object.fromEntries(
+        Object.entries(shape).map(([key, schema]) => [key, schema.json]),
+      ),
+      required: required.length > 0 ? required : undefined,
+      ...options,
+    },
+    optional: false,
+    parse(value, coerce) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError('must be an object')
+      }
+      const result: Record<string, unknown> = {}
+      for (const [key, schema] of Object.entries(shape)) {
+        try {
+          result[key] = parseValue(
+            schema,
+            (value as Record<string, unknown>)[key],
+            coerce,
+          )
+        } catch (e) {
+          throw nestError(e, `.${key}`)
+        }
+      }
+      return result as InferShape<P>
+    },
+  }
+}
+
+/**
+ * Creates a schema of an object with arbitrary keys, e.g. counts by name
+ * @param values - Schema of each value
+ * @param options - Documentation of the object
+ * @returns The record schema
+ */
+function record<T>(
+  values: Schema<T>,
+  options: SchemaOptions = {},
+): Schema<Record<string, T>> {
+  return {
+    json: { type: 'object', additionalProperties: values.json, ...options },
+    optional: false,
+    parse(value, coerce) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new SchemaError('must be an object')
+      }
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => {
+          try {
+            return [key, values.parse(item, coerce)]
+          } catch (e) {
+            throw nestError(e, `.${key}`)
+          }
+        }),
+      )
+    },
+  }
+}
+
+/**
+ * Creates a schema accepting any value, e.g. an upstream response passed
+ * through as is
+ * @param options - Documentation of the value
+ * @returns The schema
+ */
+function unknown(options: SchemaOptions = {}): Schema<unknown> {
+  return {
+    json: { ...options },
+    optional: false,
+    parse: value => value,
+  }
+}
+
+/**
+ * Makes a schema accept null
+ * @param schema - The schema
+ * @returns The nullable schema
+ */
+function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return {
+    json: { ...schema.json, nullable: true },
+    optional: schema.optional,
+    parse: (value, coerce) =>
+      value === null ? null : schema.parse(value, coerce),
+  }
+}
+
+/**
+ * Makes a schema accept an omitted value, replaced by a default if given
+ * @param schema - The schema
+ * @param defaultValue - Value used when the value is omitted
+ * @returns The optional schema
+ */
+function optional<T>(schema: Schema<T>): Schema<T | undefined>
+function optional<T>(schema: Schema<T>, defaultValue: T): Schema<T>
+function optional<T>(schema: Schema<T>, defaultValue?: T) {
+  return {
+    json: { ...schema.json, default: defaultValue },
+    optional: true,
+    parse: (value: unknown, coerce: boolean) =>
+      value === undefined ? defaultValue : schema.parse(value, coerce),
+  }
+}
+
+/**
+ * Schema builders, e.g. `t.optional(t.integer({ min: 1 }), 1)`
+ */
+export const t = {
+  string,
+  integer,
+  number,
+  boolean,
+  array,
+  object,
+  record,
+  unknown,
+  nullable,
+  optional,
+}
+
+/**
+ * Wraps a route handler so its path parameters, query parameters and body
+ * are validated against a schema before it is called, and the parsed values
+ * are passed as `req.input`
+ *
+ * The matched route is recorded for logs and metrics first, see
+ * `recordRoute`. Invalid requests are rejected with a ValidationError listing
+ * every invalid value. The schema is attached to the returned handler, so the route can be
+ * documented in the OpenAPI document.
+ * @param schema - The schema of the route
+ * @param handler - The route handler, which may be async
+ * @returns The wrapped route handler
+ */
+export function route<S extends RouteSchema>(
+  schema: S,
+  handler: (
+    req: Request & { input: RouteInput<S> },
+    res: Response,
+    next: NextFunction,
+  ) => unknown,
+): DocumentedHandler {
+  const wrapped = asyncHandler<Request['params']>(async (req, res, next) => {
+    recordRoute(req, res)
+    const input = parseInput(schema, req)
+    await handler(Object.assign(req, { input }), res, next)
+  })
+  return Object.assign(wrapped, { schema })
+}
+
+/**
+ * Records the route pattern matched by a request in `res.locals.route`, so it
+ * can be used as a bounded label in logs and metrics even once Express has
+ * reset `req.baseUrl` and `req.route`, e.g. in error handlers
+ * @param req - Express Request object, once it has matched a route
+ * @param res - Express Response object
+ * @param next - Express NextFunction, if used as a middleware
+ */
+export function recordRoute(req: Request, res: Response, next?: NextFunction) {
+  res.locals.route = `${req.baseUrl}${req.route?.path ?? ''}`
+  next?.()
+}
+
+/**
+ * Parses the path parameters, query parameters and body of a request
+ * @param schema - The schema of the route
+ * @param req - Express Request object
+ * @returns The parsed values
+ */
+function parseInput<S extends RouteSchema>(
+  schema: S,
+  req: Request,
+): RouteInput<S> {
+  const errors: InputError[] = []
+  const parseShape = (
+    location: InputLocation,
+    shape: Shape | undefined,
+    values: Record<string, unknown>,
+  ) => {
+    const result: Record<string, unknown> = {}
+    for (const [name, valueSchema] of Object.entries(shape ?? {})) {
+      try {
+        result[name] = parseValue(valueSchema, values[name], true)
+      } catch (e) {
+        errors.push(toInputError(e, location, name))
+      }
+    }
+    return result
+  }
+
+  const params = parseShape('path', schema.params, req.params)
+  const query = parseShape('query', schema.query, req.query)
+  let body: unknown
+  if (schema.body) {
+    try {
+      body = parseValue(schema.body, req.body, false)
+    } catch (e) {
+      errors.push(toInputError(e, 'body', 'body'))
+    }
+  }
+
+  const [error] = errors
+  if (error) {
+    throw new ValidationError(`${error.name} ${error.message}`, { errors })
+  }
+  return { params, query, body } as RouteInput<S>
+}
+
+/**
+ * Parses a value, rejecting omitted values unless the schema is optional
+ * @param schema - The schema of the value
+ * @param value - The raw value
+ * @param coerce - Whether to convert strings, as path and query values are
+ * @returns The parsed value
+ */
+function parseValue<T>(schema: Schema<T>, value: unknown, coerce: boolean) {
+  if (value === undefined && !schema.optional) {
+    throw new SchemaError('is required')
+  }
+  return schema.parse(value, coerce)
+}
+
+/**
+ * Prefixes the path of a SchemaError thrown by a nested value
+ * @param error - The error thrown
+ * @param path - Path of the nested value in its parent
+ * @returns The error with the full path
+ */
+function nestError(error: unknown, path: string): unknown {
+  return error instanceof SchemaError
+    ? new SchemaError(error.message, `${path}${error.path}`)
+    : error
+}
+
+/**
+ * Converts a SchemaError to an InputError, rethrowing any other error
+ * @param error - The error thrown
+ * @param location - Where the value was found
+ * @param name - Name of the value
+ * @returns The input error
+ */
+function toInputError(
+  error: unknown,
+  location: InputLocation,
+  name: string,
+): InputError {
+  if (!(error instanceof SchemaError)) {
+    throw error
+  }
+  // body errors are named by their path in the body, e.g. `addresses[2]`
+  const path =
+    location === 'body' && error.path
+      ? error.path.replace(/^\./, '')
+      : `${name}${error.path}`
+  return { in: location, name: path, message: error.message }
+}
+
+// ======================================
+// Common schemas
+// ======================================
+
+/**
+ * Schema of a txid or block hash
+ * @param description - Description of the hash
+ * @returns The hash schema
+ */
+export function hash(description: string): Schema<string> {
+  return t.string({ pattern: /^[0-9a-fA-F]{64}$/, format: 'hash', description })
+}
+
+/**
+ * Schema of a Lotus address, in XAddress or legacy format
+ * @param description - Description of the address
+ * @returns The address schema
+ */
+export function address(description: string): Schema<string> {
+  return t.string({
+    format: 'address',
+    validate: value => Bitcore.Address.isValid(value),
+    description,
+  })
+}
+
+/**
+ * Schemas of the page query parameters of a paginated route
+ * @param defaultSize - Number of items per page when not given
+ * @param maxSize - Max number of items per page, larger sizes are clamped
+ * @returns The page and pageSize query parameter schemas
+ */
+export function pagination(defaultSize: number, maxSize: number) {
+  return {
+    page: t.optional(t.integer({ min: 1, description: 'Page number' }), 1),
+    pageSize: t.optional(
+      t.integer({
+        min: 1,
+        max: maxSize,
+        clamp: true,
+        description: 'Number of items per page',
+      }),
+      defaultSize,
+    ),
+  }
+}
@@ -0,0 +1,125 @@
+import os from 'node:os'
+import cluster from 'node:cluster'
+import { StoreServer } from './store.js'
+import {
+  CLUSTER_WORKER_RESTART_DELAY,
+  CLUSTER_SHUTDOWN_TIMEOUT,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import type { Worker } from 'node:cluster'
+import type { MetricsMessage, StoreRequest } from './store.js'
+
+export {
+  ClusterRateLimitStore,
+  SharedCache,
+  StoreServer,
+  getClusterMetrics,
+} from './store.js'
+
+const log = logger.child({ component: 'cluster' })
+
+/**
+ * Control message sent by the primary to a worker
+ */
+export interface ClusterMessage {
+  /** Message channel, used to tell cluster messages apart */
+  channel: 'cluster'
+  /** The action the worker should take */
+  type: 'shutdown'
+}
+
+/**
+ * Cluster supervisor, run in the primary process
+ *
+ * Forks the API workers, restarts workers that exit unexpectedly, hosts the
+ * store shared by the workers, and drains the workers on shutdown.
+ */
+export class Supervisor {
+  /** Number of workers to keep running */
+  private numWorkers: number
+  /** Store shared by the workers */
+  private store = new StoreServer()
+  /** Max time (ms) for a worker to exit before it is killed */
+  private drainTimeout: number
+  /** Whether the workers are being shut down */
+  private stopping = false
+
+  /**
+   * Creates a new Supervisor instance
+   * @param numWorkers - Number of workers to fork; 0 forks one per CPU
+   * @param shutdownTimeout - Max time (ms) the workers wait for in-flight requests
+   */
+  constructor(numWorkers: number, shutdownTimeout: number) {
+    this.numWorkers = numWorkers > 0 ? numWorkers : os.availableParallelism()
+    this.drainTimeout = shutdownTimeout + CLUSTER_SHUTDOWN_TIMEOUT
+  }
+
+  /**
+   * Forks the workers and begins supervising them
+   */
+  public start(): void {
+    cluster.on(
+      'message',
+      (worker: Worker, msg: StoreRequest | MetricsMessage) =>
+        this.store.handleMessage(worker, msg),
+    )
+    cluster.on('exit', (worker, code, signal) => {
+      if (this.stopping) {
+        return
+      }
+      log.warn('worker exited', {
+        pid: worker.process.pid,
+        code,
+        signal,
+      })
+      setTimeout(() => this.fork(), CLUSTER_WORKER_RESTART_DELAY)
+    })
+
+    for (let i = 0; i < this.numWorkers; i++) {
+      this.fork()
+    }
+    log.info('started', { workers: this.numWorkers })
+  }
+
+  /**
+   * Asks every worker to drain and exit, killing workers that have not
+   * exited within the drain timeout
+   */
+  public async stop(): Promise<void> {
+    this.stopping = true
+    const workers = Object.values(cluster.workers ?? {}).filter(
+      (worker): worker is Worker => !!worker && !worker.isDead(),
+    )
+    await Promise.all(workers.map(worker => drain(worker, this.drainTimeout)))
+    this.store.stop()
+  }
+
+  /**
+   * Forks a new worker, unless shutting down
+   */
+  private fork() {
+    if (!this.stopping) {
+      cluster.fork()
+    }
+  }
+}
+
+/**
+ * Asks a worker to shut down and waits for it to exit
+ * @param worker - The worker to drain
+ * @param timeout - Max time (ms) to wait before killing the worker
+ */
+function drain(worker: Worker, timeout: number): Promise<void> {
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      log.warn('worker killed', { pid: worker.process.pid })
+      worker.process.kill('SIGKILL')
+    }, timeout)
+    worker.once('exit', () => {
+      clearTimeout(timer)
+      resolve()
+    })
+    const msg: ClusterMessage = { channel: 'cluster', type: 'shutdown' }
+    worker.send(msg)
+  })
+}
@@ -0,0 +1,562 @@
+import cluster from 'node:cluster'
+import { AggregatorRegistry } from 'prom-client'
+import { cacheRequestsTotal, register } from '../metrics/index.js'
+import {
+  CLUSTER_METRICS_TIMEOUT,
+  CLUSTER_STORE_REQUEST_TIMEOUT,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import type { Worker } from 'node:cluster'
+import type { Registry } from 'prom-client'
+import type {
+  Store,
+  Options,
+  ClientRateLimitInfo,
+  IncrementResponse,
+} from 'express-rate-limit'
+
+const log = logger.child({ component: 'cluster' })
+
+/**
+ * Request sent by a worker to the primary's store over IPC
+ */
+export type StoreRequest = {
+  /** Message channel, used to tell store messages apart */
+  channel: 'store'
+  /** Request ID, echoed back in the response */
+  id: number
+} & (
+  | { op: 'init'; prefix: string; windowMs: number }
+  | {
+      op: 'get' | 'increment' | 'decrement' | 'resetKey'
+      prefix: string
+      key: string
+    }
+  | { op: 'cache.get' | 'cache.delete'; namespace: string; key: string }
+  | {
+      op: 'cache.set'
+      namespace: string
+      key: string
+      value: unknown
+      options: SharedCacheOptions
+    }
+  | { op: 'metrics' }
+)
+
+/**
+ * Response sent by the primary's store to a worker over IPC
+ */
+export interface StoreResponse {
+  /** Message channel, used to tell store messages apart */
+  channel: 'store'
+  /** ID of the request being answered */
+  id: number
+  /** Result of the operation, if any */
+  result?: unknown
+}
+
+/**
+ * Metrics of one process, as returned by `register.getMetricsAsJSON()`
+ */
+type MetricsJSON = Awaited<ReturnType<Registry['getMetricsAsJSON']>>
+
+/**
+ * Request sent by the primary's store to a worker for its local metrics, or
+ * the worker's response, over IPC
+ */
+export interface MetricsMessage {
+  /** Message channel, used to tell metrics messages apart */
+  channel: 'metrics'
+  /** Request ID, echoed back in the response */
+  id: number
+  /** The worker's local metrics, set in the response */
+  metrics?: MetricsJSON
+}
+
+/**
+ * Bounds on the entries of a shared cache
+ */
+export interface SharedCacheOptions {
+  /** Time (ms) an entry is kept after it is set; kept until evicted if unset */
+  ttl?: number
+  /** Max number of entries; the oldest entries are evicted first if unset */
+  maxEntries?: number
+}
+
+/**
+ * Shared cache entry, with the time it expires at
+ */
+interface SharedCacheEntry {
+  /** The cached value */
+  value: unknown
+  /** Time the entry expires at, in milliseconds, or null if it never expires */
+  expiresAt: number | null
+}
+
+/**
+ * Omit applied to each member of a union type
+ */
+type DistributiveOmit<T, K extends PropertyKey> = T extends unknown
+  ? Omit<T, K>
+  : never
+
+/**
+ * Rate limit hits recorded for a client, as serialized over IPC
+ */
+interface SerializedRateLimitInfo {
+  /** Number of hits in the current window */
+  totalHits: number
+  /** Time the window resets, in milliseconds */
+  resetTime: number
+}
+
+/**
+ * Request from this worker waiting for the primary's response
+ */
+interface PendingRequest {
+  /** Resolves the request with the result of the operation */
+  resolve: (result: unknown) => void
+  /** Rejects the request */
+  reject: (error: Error) => void
+  /** Timer rejecting the request if the primary does not respond in time */
+  timer: NodeJS.Timeout
+}
+
+/**
+ * Raised when the primary's store does not answer a worker's request, e.g.
+ * because the IPC channel was closed
+ * @extends {Error}
+ */
+export class StoreUnavailableError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'StoreUnavailableError'
+  }
+}
+
+/** Pending requests from this worker, keyed by request ID */
+const PENDING = new Map<number, PendingRequest>()
+/** Request ID counter for this worker */
+let nextRequestId = 0
+
+if (cluster.isWorker) {
+  process.on('message', (msg: StoreResponse) => {
+    if (msg?.channel !== 'store') {
+      return
+    }
+    const pending = PENDING.get(msg.id)
+    if (pending) {
+      clearTimeout(pending.timer)
+      PENDING.delete(msg.id)
+      pending.resolve(msg.result)
+    }
+  })
+  process.on('message', async (msg: MetricsMessage) => {
+    if (msg?.channel !== 'metrics' || msg.metrics) {
+      return
+    }
+    const response: MetricsMessage = {
+      channel: 'metrics',
+      id: msg.id,
+      metrics: await register.getMetricsAsJSON(),
+    }
+    if (process.connected) {
+      process.send!(response)
+    }
+  })
+  // responses can no longer arrive once the IPC channel is closed
+  process.on('disconnect', () => {
+    for (const [id, pending] of PENDING) {
+      clearTimeout(pending.timer)
+      PENDING.delete(id)
+      pending.reject(new StoreUnavailableError('disconnected from primary'))
+    }
+  })
+}
+
+/**
+ * Sends a request to the primary's store and waits for the response
+ *
+ * The request is rejected if the worker is disconnected from the primary or
+ * the primary does not respond within `CLUSTER_STORE_REQUEST_TIMEOUT`.
+ * @param request - The store request, without channel and ID
+ * @returns The result of the operation
+ */
+function request<T>(request: DistributiveOmit<StoreRequest, 'channel' | 'id'>) {
+  const id = nextRequestId++
+  return new Promise<T>((resolve, reject) => {
+    if (!process.connected) {
+      reject(new StoreUnavailableError('disconnected from primary'))
+      return
+    }
+    const timer = setTimeout(() => {
+      PENDING.delete(id)
+      reject(new StoreUnavailableError(`${request.op} request timed out`))
+    }, CLUSTER_STORE_REQUEST_TIMEOUT)
+    PENDING.set(id, {
+      resolve: resolve as (result: unknown) => void,
+      reject,
+      timer,
+    })
+    process.send!({ ...request, channel: 'store', id })
+  })
+}
+
+/**
+ * Rate limit store for cluster workers, keeping the hit counters in the
+ * primary so every worker enforces the same limits
+ */
+export class ClusterRateLimitStore implements Store {
+  /** Prefix for the keys of this store, unique per rate limiter */
+  public prefix: string
+
+  /**
+   * Creates a new ClusterRateLimitStore instance
+   * @param prefix - Prefix for the keys of this store (defaults to 'rl:')
+   */
+  constructor(prefix = 'rl:') {
+    this.prefix = prefix
+  }
+
+  async init(options: Options) {
+    await request({
+      op: 'init',
+      prefix: this.prefix,
+      windowMs: options.windowMs,
+    })
+  }
+
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const info = await request<SerializedRateLimitInfo | undefined>({
+      op: 'get',
+      prefix: this.prefix,
+      key,
+    })
+    return info ? toClientRateLimitInfo(info) : undefined
+  }
+
+  async increment(key: string): Promise<IncrementResponse> {
+    const info = await request<SerializedRateLimitInfo>({
+      op: 'increment',
+      prefix: this.prefix,
+      key,
+    })
+    return toClientRateLimitInfo(info)
+  }
+
+  async decrement(key: string) {
+    await request({ op: 'decrement', prefix: this.prefix, key })
+  }
+
+  async resetKey(key: string) {
+    await request({ op: 'resetKey', prefix: this.prefix, key })
+  }
+}
+
+/**
+ * Key-value cache shared by every process in the cluster
+ *
+ * In cluster workers the entries are kept in the primary and accessed over
+ * IPC; otherwise they are kept in a local Map. Values must be serializable.
+ * Entries can be bounded by a TTL and a max number of entries.
+ */
+export class SharedCache<T> {
+  /** Namespace of this cache's entries in the primary */
+  private namespace: string
+  /** Bounds on this cache's entries */
+  private options: SharedCacheOptions
+  /** Local entries, used when not running as a cluster worker */
+  private entries = new Map<string, SharedCacheEntry>()
+
+  /**
+   * Creates a new SharedCache instance
+   * @param namespace - Namespace of this cache's entries, unique per cache
+   * @param options - Optional TTL and max number of entries
+   */
+  constructor(namespace: string, options: SharedCacheOptions = {}) {
+    this.namespace = namespace
+    this.options = options
+  }
+
+  async get(key: string): Promise<T | undefined> {
+    const value = cluster.isWorker
+      ? await request<T | undefined>({
+          op: 'cache.get',
+          namespace: this.namespace,
+          key,
+        })
+      : (getCacheEntry(this.entries, key) as T | undefined)
+    cacheRequestsTotal.inc({
+      cache: this.namespace,
+      result: value === undefined ? 'miss' : 'hit',
+    })
+    return value
+  }
+
+  async set(key: string, value: T): Promise<void> {
+    if (!cluster.isWorker) {
+      setCacheEntry(this.entries, key, value, this.options)
+      return
+    }
+    await request({
+      op: 'cache.set',
+      namespace: this.namespace,
+      key,
+      value,
+      options: this.options,
+    })
+  }
+
+  async delete(key: string): Promise<void> {
+    if (!cluster.isWorker) {
+      this.entries.delete(key)
+      return
+    }
+    await request({ op: 'cache.delete', namespace: this.namespace, key })
+  }
+}
+
+/**
+ * Sends the metrics of the primary and every worker in the cluster,
+ * aggregated by the primary
+ * @returns The aggregated metrics in the Prometheus text format
+ */
+export function getClusterMetrics(): Promise<string> {
+  return request<string>({ op: 'metrics' })
+}
+
+/**
+ * Store hosted in the cluster primary, serving rate limit counters, shared
+ * cache entries and aggregated metrics to the workers over IPC
+ *
+ * Metrics are aggregated from the primary's own registry, which holds the
+ * indexer's metrics, and the local registry of every connected worker.
+ */
+export class StoreServer {
+  /** Rate limit window length per store prefix, in milliseconds */
+  private windows = new Map<string, number>()
+  /** Rate limit hits, keyed by store prefix and client key */
+  private hits = new Map<string, SerializedRateLimitInfo>()
+  /** Shared cache entries, keyed by namespace */
+  private caches = new Map<string, Map<string, SharedCacheEntry>>()
+  /** Pending metrics requests to workers, resolved with their local metrics */
+  private metricsRequests = new Map<number, (metrics: MetricsJSON) => void>()
+  /** Request ID counter for metrics requests */
+  private nextMetricsId = 0
+  /** Interval for removing expired rate limit hits */
+  private cleanup: NodeJS.Timeout
+
+  constructor() {
+    this.cleanup = setInterval(() => this.removeExpiredHits(), 60_000)
+    this.cleanup.unref()
+  }
+
+  /**
+   * Handles a store request from a worker and sends the response, or a
+   * worker's response to a metrics request
+   * @param worker - The worker that sent the request
+   * @param msg - The message received from the worker
+   */
+  public async handleMessage(
+    worker: Worker,
+    msg: StoreRequest | MetricsMessage,
+  ) {
+    if (msg?.channel === 'metrics') {
+      this.metricsRequests.get(msg.id)?.(msg.metrics ?? [])
+      return
+    }
+    if (msg?.channel !== 'store') {
+      return
+    }
+    const response: StoreResponse = {
+      channel: 'store',
+      id: msg.id,
+      result:
+        msg.op === 'metrics' ? await this.collectMetrics() : this.process(msg),
+    }
+    if (worker.isConnected()) {
+      worker.send(response)
+    }
+  }
+
+  /**
+   * Stops removing expired rate limit hits
+   */
+  public stop() {
+    clearInterval(this.cleanup)
+  }
+
+  /**
+   * Applies a store request
+   * @param msg - The store request
+   * @returns The result of the operation
+   */
+  private process(msg: StoreRequest): unknown {
+    switch (msg.op) {
+      case 'init':
+        this.windows.set(msg.prefix, msg.windowMs)
+        return
+      case 'get':
+        return this.getHits(`${msg.prefix}${msg.key}`)
+      case 'increment': {
+        const key = `${msg.prefix}${msg.key}`
+        const info = this.getHits(key) ?? {
+          totalHits: 0,
+          resetTime: Date.now() + (this.windows.get(msg.prefix) ?? 60_000),
+        }
+        info.totalHits++
+        this.hits.set(key, info)
+        return info
+      }
+      case 'decrement': {
+        const info = this.getHits(`${msg.prefix}${msg.key}`)
+        if (info && info.totalHits > 0) {
+          info.totalHits--
+        }
+        return
+      }
+      case 'resetKey':
+        this.hits.delete(`${msg.prefix}${msg.key}`)
+        return
+      case 'cache.get': {
+        const cache = this.caches.get(msg.namespace)
+        return cache && getCacheEntry(cache, msg.key)
+      }
+      case 'cache.set': {
+        const cache = this.caches.get(msg.namespace) ?? new Map()
+        setCacheEntry(cache, msg.key, msg.value, msg.options)
+        this.caches.set(msg.namespace, cache)
+        return
+      }
+      case 'cache.delete':
+        this.caches.get(msg.namespace)?.delete(msg.key)
+        return
+      case 'metrics':
+        // collected asynchronously by handleMessage
+        return
+    }
+  }
+
+  /**
+   * Collects and aggregates the metrics of the primary and every connected
+   * worker
+   * @returns The aggregated metrics, or an empty string if aggregation failed
+   */
+  private async collectMetrics() {
+    const workers = Object.values(cluster.workers ?? {}).filter(
+      (worker): worker is Worker => !!worker && worker.isConnected(),
+    )
+    try {
+      const metrics = await Promise.all([
+        register.getMetricsAsJSON(),
+        ...workers.map(worker => this.requestMetrics(worker)),
+      ])
+      return await AggregatorRegistry.aggregate(metrics).metrics()
+    } catch (e) {
+      log.error('metrics failed', { error: (e as Error).message })
+      return ''
+    }
+  }
+
+  /**
+   * Asks a worker for its local metrics
+   * @param worker - The worker to ask
+   * @returns The worker's metrics, or none if it does not respond within
+   * `CLUSTER_METRICS_TIMEOUT`
+   */
+  private requestMetrics(worker: Worker) {
+    const id = this.nextMetricsId++
+    return new Promise<MetricsJSON>(resolve => {
+      const timer = setTimeout(() => {
+        log.warn('worker metrics timed out', { pid: worker.process.pid })
+        done([])
+      }, CLUSTER_METRICS_TIMEOUT)
+      const done = (metrics: MetricsJSON) => {
+        clearTimeout(timer)
+        this.metricsRequests.delete(id)
+        resolve(metrics)
+      }
+      this.metricsRequests.set(id, done)
+      const msg: MetricsMessage = { channel: 'metrics', id }
+      worker.send(msg)
+    })
+  }
+
+  /**
+   * Gets the rate limit hits for a key, if its window has not expired
+   * @param key - The prefixed client key
+   * @returns The rate limit hits, or undefined if none are recorded
+   */
+  private getHits(key: string) {
+    const info = this.hits.get(key)
+    if (info && info.resetTime <= Date.now()) {
+      this.hits.delete(key)
+      return undefined
+    }
+    return info
+  }
+
+  /**
+   * Removes every rate limit entry whose window has expired
+   */
+  private removeExpiredHits() {
+    const now = Date.now()
+    for (const [key, info] of this.hits) {
+      if (info.resetTime <= now) {
+        this.hits.delete(key)
+      }
+    }
+  }
+}
+
+/**
+ * Gets a shared cache value, removing it if it has expired
+ * @param entries - The entries of the cache
+ * @param key - The cache key
+ * @returns The cached value, or undefined if not cached or expired
+ */
+function getCacheEntry(entries: Map<string, SharedCacheEntry>, key: string) {
+  const entry = entries.get(key)
+  if (entry?.expiresAt && entry.expiresAt <= Date.now()) {
+    entries.delete(key)
+    return undefined
+  }
+  return entry?.value
+}
+
+/**
+ * Sets a shared cache value, evicting the oldest entries if the cache is full
+ * @param entries - The entries of the cache, in insertion order
+ * @param key - The cache key
+ * @param value - The value to cache
+ * @param options - The TTL and max number of entries of the cache
+ */
+function setCacheEntry(
+  entries: Map<string, SharedCacheEntry>,
+  key: string,
+  value: unknown,
+  { ttl, maxEntries }: SharedCacheOptions,
+) {
+  entries.delete(key)
+  entries.set(key, { value, expiresAt: ttl ? Date.now() + ttl : null })
+  if (maxEntries === undefined) {
+    return
+  }
+  for (const oldest of entries.keys()) {
+    if (entries.size <= maxEntries) {
+      break
+    }
+    entries.delete(oldest)
+  }
+}
+
+/**
+ * Converts rate limit hits received over IPC to the express-rate-limit format
+ * @param info - The serialized rate limit hits
+ * @returns The client rate limit info
+ */
+function toClientRateLimitInfo(
+  info: SerializedRateLimitInfo,
+): ClientRateLimitInfo {
+  return { totalHits: info.totalHits, resetTime: new Date(info.resetTime) }
+}
@@ -0,0 +1,230 @@
+import { prisma } from '../modules/index.js'
+import { IDX_TX_MAX_WAIT, IDX_TX_TIMEOUT } from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import type { Prisma } from '../../generated/prisma/index.js'
+
+const log = logger.child({ component: 'charts' })
+
+/**
+ * Time range covered by a chart series
+ */
+export type ChartRange = 'day' | 'week' | 'month' | 'quarter' | 'year'
+
+/**
+ * Chart computed from the indexed blocks
+ */
+export type ChartName = 'burned' | 'inflation' | 'transactions'
+
+/**
+ * Single data point of a chart series
+ */
+export interface ChartPoint {
+  /** Start of the bucket, in seconds */
+  timestamp: number
+  /** Bucket total; satoshis are serialized as strings */
+  value: string | number
+}
+
+/**
+ * Length and bucket size of a chart range, in seconds
+ */
+interface ChartRangeParameters {
+  /** Length of the range */
+  length: number
+  /** Size of each bucket in the range */
+  interval: number
+}
+
+/**
+ * Totals of the blocks in a single bucket, as returned by the database
+ */
+interface BucketRow {
+  /** Start of the bucket, in seconds */
+  bucket: bigint
+  /** Sum of burned satoshis */
+  burned: bigint
+  /** Sum of coinbase subsidies */
+  subsidy: bigint
+  /** Sum of non-coinbase transactions */
+  txs: bigint
+}
+
+const HOUR = 3_600
+const DAY = 24 * HOUR
+
+/**
+ * Length and bucket size of each chart range
+ */
+export const CHART_RANGES: Record<ChartRange, ChartRangeParameters> = {
+  day: { length: DAY, interval: HOUR },
+  week: { length: 7 * DAY, interval: 6 * HOUR },
+  month: { length: 30 * DAY, interval: DAY },
+  quarter: { length: 90 * DAY, interval: 3 * DAY },
+  year: { length: 364 * DAY, interval: 7 * DAY },
+}
+
+/**
+ * Derives the burned, inflation and transaction chart series from the indexed
+ * blocks, bucketed by block timestamp, and stores them in the chart models
+ *
+ * Series end at the timestamp of the indexed tip rather than the wall clock,
+ * so the charts stay consistent while the indexer is catching up.
+ */
+export class Charts {
+  /** Whether the charts are currently being updated */
+  private updating = false
+  /** Whether another update was requested during the current update */
+  private pending = false
+
+  /**
+   * Recomputes and stores every chart series. Calls made while an update is
+   * in progress are coalesced into a single follow-up update.
+   */
+  public async update(): Promise<void> {
+    if (this.updating) {
+      this.pending = true
+      return
+    }
+    this.updating = true
+    try {
+      do {
+        this.pending = false
+        await this.compute()
+      } while (this.pending)
+    } catch (e) {
+      log.error('update failed', { error: (e as Error).message })
+    } finally {
+      this.updating = false
+    }
+  }
+
+  /**
+   * Computes the series of every range and stores them in one transaction
+   */
+  private async compute() {
+    await prisma.$transaction(tx => storeCharts(tx), {
+      timeout: IDX_TX_TIMEOUT,
+      maxWait: IDX_TX_MAX_WAIT,
+    })
+  }
+}
+
+/**
+ * Computes the series of every range from the indexed blocks and stores them
+ * @param tx - The interactive transaction client to read and write with, e.g.
+ * the indexer's rewind transaction
+ */
+export async function storeCharts(tx: Prisma.TransactionClient) {
+  const tip = await tx.block.findFirst({
+    orderBy: { height: 'desc' },
+    select: { timestamp: true },
+  })
+  if (!tip) {
+    return
+  }
+
+  const burned: Record<string, ChartPoint[]> = {}
+  const inflation: Record<string, ChartPoint[]> = {}
+  const transactions: Record<string, ChartPoint[]> = {}
+  for (const [range, params] of Object.entries(CHART_RANGES)) {
+    const rows = await getBuckets(tx, tip.timestamp, params)
+    burned[range] = rows.map(r => toPoint(r, r.burned.toString()))
+    inflation[range] = rows.map(r => toPoint(r, r.subsidy.toString()))
+    transactions[range] = rows.map(r => toPoint(r, Number(r.txs)))
+  }
+
+  const sum = (points: ChartPoint[]) =>
+    points.reduce((acc, point) => acc + BigInt(point.value), 0n)
+  const burnedData = {
+    ...burned,
+    burnedDay: sum(burned.day!),
+    burnedWeek: sum(burned.week!),
+    burnedMonth: sum(burned.month!),
+    burnedQuarter: sum(burned.quarter!),
+    burnedYear: sum(burned.year!),
+  }
+  const inflationData = {
+    ...inflation,
+    inflationDay: sum(inflation.day!),
+    inflationWeek: sum(inflation.week!),
+    inflationMonth: sum(inflation.month!),
+    inflationQuarter: sum(inflation.quarter!),
+    inflationYear: sum(inflation.year!),
+  }
+  const transactionsData = {
+    ...transactions,
+    txsDay: Number(sum(transactions.day!)),
+    txsWeek: Number(sum(transactions.week!)),
+    txsMonth: Number(sum(transactions.month!)),
+    txsQuarter: Number(sum(transactions.quarter!)),
+    txsYear: Number(sum(transactions.year!)),
+  }
+
+  // each chart is stored in a single row
+  const [burnedChart, inflationChart, transactionsChart] = await Promise.all([
+    tx.burnedChart.findFirst({ select: { id: true } }),
+    tx.inflationChart.findFirst({ select: { id: true } }),
+    tx.transactionsChart.findFirst({ select: { id: true } }),
+  ])
+  await tx.burnedChart.upsert({
+    where: { id: burnedChart?.id ?? '' },
+    create: burnedData,
+    update: burnedData,
+  })
+  await tx.inflationChart.upsert({
+    where: { id: inflationChart?.id ?? '' },
+    create: inflationData,
+    update: inflationData,
+  })
+  await tx.transactionsChart.upsert({
+    where: { id: transactionsChart?.id ?? '' },
+    create: transactionsData,
+    update: transactionsData,
+  })
+}
+
+/**
+ * Sums the indexed blocks into buckets covering a chart range, including
+ * empty buckets
+ * @param tx - The transaction client
+ * @param tipTimestamp - Timestamp of the indexed tip, in seconds
+ * @param params - Length and bucket size of the range
+ * @returns One row per bucket, oldest first
+ */
+async function getBuckets(
+  tx: Prisma.TransactionClient,
+  tipTimestamp: bigint,
+  { length, interval }: ChartRangeParameters,
+): Promise<BucketRow[]> {
+  const step = BigInt(interval)
+  const end = (tipTimestamp / step) * step
+  const start = end - BigInt(length) + step
+  const rows = await tx.$queryRaw<BucketRow[]>`
+    SELECT ("timestamp" / ${step}) * ${step} AS "bucket",
+      SUM("burned")::bigint AS "burned",
+      SUM("subsidy")::bigint AS "subsidy",
+      SUM("numTxs" - 1)::bigint AS "txs"
+    FROM "Block"
+    WHERE "timestamp" >= ${start}
+    GROUP BY "bucket"
+    ORDER BY "bucket" ASC`
+
+  const buckets = new Map(rows.map(row => [row.bucket, row]))
+  const filled: BucketRow[] = []
+  for (let bucket = start; bucket <= end; bucket += step) {
+    filled.push(
+      buckets.get(bucket) ?? { bucket, burned: 0n, subsidy: 0n, txs: 0n },
+    )
+  }
+  return filled
+}
+
+/**
+ * Converts a bucket row to a chart point
+ * @param row - The bucket row
+ * @param value - The bucket total to plot
+ * @returns The chart point
+ */
+function toPoint(row: BucketRow, value: string | number): ChartPoint {
+  return { timestamp: Number(row.bucket), value }
+}
@@ -0,0 +1,261 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { chronikClient, nngClient } from '../modules/index.js'
+import { NNGTopic } from '../modules/nng.js'
+import { Indexer } from './index.js'
+
+/**
+ * Stored `Block` row, as written by the indexer
+ */
+interface StoredBlock {
+  id: string
+  height: number
+  timestamp: bigint
+  subsidy: bigint
+  burned: bigint
+  numTxs: number
+}
+
+const { chronik, db } = vi.hoisted(() => ({
+  /** Block hashes of the chain Chronik serves, indexed by height */
+  chronik: { chain: [] as string[] },
+  /** Rows of the fake database */
+  db: { blocks: [] as StoredBlock[] },
+}))
+
+vi.mock('lotus-nng-client', async () => {
+  const { EventEmitter } = await import('node:events')
+  return { NNGClient: EventEmitter }
+})
+vi.mock('../modules/index.js', async () => {
+  const { EventEmitter } = await import('node:events')
+  return {
+    nngClient: Object.assign(new EventEmitter(), { subscribe: vi.fn() }),
+    chronikClient: {
+      blockchainInfo: vi.fn(async () => ({
+        tipHeight: chronik.chain.length - 1,
+      })),
+      block: vi.fn(async (height: number) => toChronikBlock(height)),
+      blocks: vi.fn(async (start: number, end: number) =>
+        Array.from(
+          { length: end - start + 1 },
+          (_, i) => toChronikBlock(start + i).blockInfo,
+        ),
+      ),
+    },
+    prisma: createPrisma(),
+  }
+})
+
+beforeEach(() => {
+  db.blocks = []
+  chronik.chain = []
+})
+
+afterEach(() => {
+  vi.clearAllMocks()
+})
+
+describe('Indexer', () => {
+  it('catches up to the Chronik tip in batches', async () => {
+    chronik.chain = toChain(45)
+    const indexer = new Indexer()
+    const indexed: number[] = []
+    indexer.on('indexed', height => indexed.push(height))
+
+    await indexer.start()
+    indexer.stop()
+
+    expect(db.blocks.map(b => b.id)).toEqual(chronik.chain.slice(1))
+    expect(indexed).toEqual([20, 40, 45])
+  })
+
+  it('resumes from the stored tip', async () => {
+    chronik.chain = toChain(25)
+    db.blocks = chronik.chain.slice(1, 11).map(toStoredBlock)
+
+    const indexer = new Indexer()
+    await indexer.start()
+    indexer.stop()
+
+    expect(db.blocks.map(b => b.height)).toEqual(
+      Array.from({ length: 25 }, (_, i) => i + 1),
+    )
+    expect(vi.mocked(chronikClient.block)).toHaveBeenCalledTimes(15)
+    expect(vi.mocked(chronikClient.block)).not.toHaveBeenCalledWith(10)
+  })
+
+  it('rewinds to the fork point when the stored tip was reorged out', async () => {
+    db.blocks = toChain(30).slice(1).map(toStoredBlock)
+    chronik.chain = toChain(32, 25)
+    const indexer = new Indexer()
+    const rewinds: number[] = []
+    indexer.on('rewind', height => rewinds.push(height))
+
+    await indexer.start()
+    indexer.stop()
+
+    expect(rewinds).toEqual([25])
+    expect(db.blocks.map(b => b.id)).toEqual(chronik.chain.slice(1))
+  })
+
+  it('finds fork points more than a batch below the stored tip', async () => {
+    db.blocks = toChain(50).slice(1).map(toStoredBlock)
+    chronik.chain = toChain(52, 5)
+    const indexer = new Indexer()
+    const rewinds: number[] = []
+    indexer.on('rewind', height => rewinds.push(height))
+
+    await indexer.start()
+    indexer.stop()
+
+    expect(rewinds).toEqual([5])
+    expect(db.blocks.map(b => b.id)).toEqual(chronik.chain.slice(1))
+  })
+
+  it('rewinds blocks disconnected after the initial sync', async () => {
+    chronik.chain = toChain(30)
+    const indexer = new Indexer()
+    const rewinds: number[] = []
+    indexer.on('rewind', height => rewinds.push(height))
+    await indexer.start()
+
+    chronik.chain = toChain(29)
+    nngClient.emit(NNGTopic.BLOCK_DISCONNECTED, {
+      hash: 'a30',
+      prevHash: 'a29',
+      height: 30,
+    })
+    await vi.waitFor(() => expect(rewinds).toEqual([29]))
+    indexer.stop()
+
+    expect(db.blocks.map(b => b.height).at(-1)).toBe(29)
+  })
+
+  it('ignores disconnected blocks that were never indexed', async () => {
+    chronik.chain = toChain(30)
+    const indexer = new Indexer()
+    const rewind = vi.fn()
+    indexer.on('rewind', rewind)
+    await indexer.start()
+
+    nngClient.emit(NNGTopic.BLOCK_DISCONNECTED, {
+      hash: 'b31',
+      prevHash: 'a30',
+      height: 31,
+    })
+    await vi.waitFor(() =>
+      expect(vi.mocked(chronikClient.blockchainInfo)).toHaveBeenCalledTimes(2),
+    )
+    indexer.stop()
+
+    expect(rewind).not.toHaveBeenCalled()
+    expect(db.blocks).toHaveLength(30)
+  })
+})
+
+// ======================================
+// Fakes
+// ======================================
+
+/**
+ * Builds the block hashes of a chain, sharing the blocks up to the fork
+ * height with every other chain
+ * @param length - Height of the tip
+ * @param forkHeight - Height of the last shared block
+ * @param branch - Tag of the blocks after the fork
+ * @returns The block hashes, indexed by height
+ */
+function toChain(length: number, forkHeight = length, branch = 'b') {
+  return Array.from({ length: length + 1 }, (_, height) =>
+    height <= forkHeight ? `a${height}` : `${branch}${height}`,
+  )
+}
+
+/**
+ * Gets a block of the chain Chronik serves
+ * @param height - The block height
+ * @returns The Chronik block, without txs
+ */
+function toChronikBlock(height: number) {
+  return {
+    blockInfo: {
+      hash: chronik.chain[height]!,
+      prevHash: chronik.chain[height - 1] ?? '',
+      height,
+      timestamp: String(1_700_000_000 + height * 120),
+      nBits: 0x1c100000,
+      sumCoinbaseOutputSats: '260000000',
+      sumBurnedSats: '0',
+      numTxs: '1',
+    },
+    txs: [],
+  }
+}
+
+/**
+ * Converts a block hash of the chain to a stored `Block` row
+ * @param hash - The block hash
+ * @param index - Index of the block, from height 1
+ * @returns The stored block
+ */
+function toStoredBlock(hash: string, index: number): StoredBlock {
+  return {
+    id: hash,
+    height: index + 1,
+    timestamp: BigInt(1_700_000_000 + (index + 1) * 120),
+    subsidy: 260_000_000n,
+    burned: 0n,
+    numTxs: 1,
+  }
+}
+
+/**
+ * Creates a fake Prisma client keeping blocks in memory; the methods of
+ * other models resolve with no rows
+ * @returns The fake client
+ */
+function createPrisma() {
+  /** Filter on block heights used by the indexer */
+  type HeightFilter = { gt?: number; gte?: number; lte?: number }
+  const inRange = (height: number, filter: HeightFilter = {}) =>
+    (filter.gt === undefined || height > filter.gt) &&
+    (filter.gte === undefined || height >= filter.gte) &&
+    (filter.lte === undefined || height <= filter.lte)
+
+  const block = {
+    findFirst: async () =>
+      [...db.blocks].sort((a, b) => b.height - a.height)[0] ?? null,
+    findUnique: async ({ where }: { where: { id: string } }) =>
+      db.blocks.find(b => b.id === where.id) ?? null,
+    findMany: async ({ where }: { where: { height: HeightFilter } }) =>
+      db.blocks.filter(b => inRange(b.height, where.height)),
+    createMany: async ({ data }: { data: StoredBlock[] }) => {
+      db.blocks.push(...data)
+      return { count: data.length }
+    },
+    deleteMany: async ({ where }: { where: { height: HeightFilter } }) => {
+      db.blocks = db.blocks.filter(b => !inRange(b.height, where.height))
+    },
+  }
+  const stat = {
+    findFirst: async () => ({ id: 'stat' }),
+    create: async () => ({ id: 'stat' }),
+    update: async () => ({ id: 'stat' }),
+  }
+  const client: Record<string | symbol, unknown> = new Proxy(
+    {
+      block,
+      stat,
+      $connect: async () => {},
+      $queryRaw: async () => [],
+      $transaction: async (
+        ops: Promise<unknown>[] | ((tx: unknown) => Promise<unknown>),
+      ) => (typeof ops === 'function' ? ops(client) : Promise.all(ops)),
+    } as Record<string | symbol, unknown>,
+    {
+      get: (target, property) =>
+        target[property] ?? new Proxy({}, { get: () => async () => [] }),
+    },
+  )
+  return client
+}
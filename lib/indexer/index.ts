@@ -0,0 +1,412 @@
+import { EventEmitter } from 'node:events'
+import { chronikClient, nngClient, prisma } from '../modules/index.js'
+import { NNGTopic } from '../modules/nng.js'
+import { indexerHeight, indexerLagBlocks } from '../metrics/index.js'
+import {
+  IDX_BLOCK_BATCH_SIZE,
+  IDX_TX_MAX_WAIT,
+  IDX_TX_TIMEOUT,
+  NNG_MESSAGE_BATCH_SIZE,
+  ERR,
+} from '../../utils/constants.js'
+import { getMinerAddress, toDifficulty } from '../../utils/functions.js'
+import { logger } from '../../utils/logger.js'
+import {
+  sumProfileTotals,
+  toProfileRewind,
+  toProfileUpsert,
+  toRankVotes,
+} from './rank.js'
+import { storeCharts } from './charts.js'
+import type { Block as ChronikBlock } from 'chronik-client'
+import type { Block, Prisma } from '../../generated/prisma/index.js'
+import type { NNGBlockMessage } from '../modules/nng.js'
+
+const log = logger.child({ component: 'indexer' })
+
+/**
+ * Block message queued for processing, along with the topic it arrived on
+ */
+interface QueuedBlockMessage {
+  /** The NNG topic the message was published on */
+  topic: NNGTopic.BLOCK_CONNECTED | NNGTopic.BLOCK_DISCONNECTED
+  /** The block message */
+  msg: NNGBlockMessage
+}
+
+/**
+ * Error raised by the indexer, carrying the process exit code to use
+ */
+export class IndexerError extends Error {
+  /** Exit code from the `ERR` enum */
+  public readonly code: ERR
+
+  constructor(code: ERR, message: string) {
+    super(message)
+    this.name = 'IndexerError'
+    this.code = code
+  }
+}
+
+/**
+ * Indexes blocks and their RANK votes into the database and keeps the
+ * aggregate stats and RANK profile totals up to date
+ *
+ * The indexer first catches up to the Chronik tip in batches of
+ * `IDX_BLOCK_BATCH_SIZE` blocks, then follows the NNG pub socket for new
+ * blocks. Reorgs are detected from disconnected blocks and from new blocks
+ * that do not build on the stored tip; the affected blocks are rewound before
+ * the new branch is applied.
+ *
+ * Blocks are fetched from Chronik rather than with the node's NNG block range
+ * RPC: Chronik blocks carry the totals that are stored (coinbase output and
+ * burned sats, tx count) and decoded txs with the input scripts the miner
+ * address and RANK voters are taken from, none of which the raw NNG blocks
+ * provide.
+ *
+ * Emits `indexed` with the new tip height after blocks are stored, `rewind`
+ * with the fork height after blocks are rolled back, and fatal errors as
+ * `error` events with an `IndexerError`.
+ * @extends {EventEmitter}
+ */
+export class Indexer extends EventEmitter {
+  /** Block messages received from the NNG pub socket, pending processing */
+  private queue: QueuedBlockMessage[] = []
+  /** Whether the queue is currently being processed */
+  private processing = false
+  /** Whether the indexer has finished its initial sync */
+  private synced = false
+  /** ID of the `Stat` row holding the aggregate totals */
+  private statId!: string
+  /** NNG `blkconnected` handler */
+  private onBlockConnected = (msg: NNGBlockMessage) =>
+    this.enqueue({ topic: NNGTopic.BLOCK_CONNECTED, msg })
+  /** NNG `blkdisconctd` handler */
+  private onBlockDisconnected = (msg: NNGBlockMessage) =>
+    this.enqueue({ topic: NNGTopic.BLOCK_DISCONNECTED, msg })
+
+  /**
+   * Connects to the database, syncs to the current tip, then begins
+   * following new blocks from the (already connected) NNG pub socket
+   */
+  public async start(): Promise<void> {
+    try {
+      await prisma.$connect()
+      const stat =
+        (await prisma.stat.findFirst()) ?? (await prisma.stat.create({}))
+      this.statId = stat.id
+    } catch (e) {
+      throw new IndexerError(ERR.IDX_DATABASE_CONNECT, (e as Error).message)
+    }
+
+    nngClient.on(NNGTopic.BLOCK_CONNECTED, this.onBlockConnected)
+    nngClient.on(NNGTopic.BLOCK_DISCONNECTED, this.onBlockDisconnected)
+    nngClient.subscribe([NNGTopic.BLOCK_CONNECTED, NNGTopic.BLOCK_DISCONNECTED])
+
+    await this.sync()
+    this.synced = true
+    log.info('synced')
+    // process any blocks that arrived during the initial sync
+    this.processQueue()
+  }
+
+  /**
+   * Stops following new blocks
+   */
+  public stop(): void {
+    nngClient.off(NNGTopic.BLOCK_CONNECTED, this.onBlockConnected)
+    nngClient.off(NNGTopic.BLOCK_DISCONNECTED, this.onBlockDisconnected)
+    this.queue = []
+  }
+
+  /**
+   * Adds a block message to the queue and processes it once synced
+   * @param queued - The block message received from the NNG pub socket
+   */
+  private enqueue(queued: QueuedBlockMessage) {
+    this.queue.push(queued)
+    if (this.synced) {
+      this.processQueue()
+    }
+  }
+
+  /**
+   * Processes queued block messages in batches of `NNG_MESSAGE_BATCH_SIZE`
+   *
+   * Disconnected blocks are rewound in order; connected blocks only signal
+   * that the tip has moved, so one sync covers every block in the batch.
+   */
+  private async processQueue() {
+    if (this.processing) {
+      return
+    }
+    this.processing = true
+    try {
+      while (this.queue.length > 0) {
+        const batch = this.queue.splice(0, NNG_MESSAGE_BATCH_SIZE)
+        log.debug('processQueue', {
+          messages: batch.length,
+          height: batch[batch.length - 1]!.msg.height,
+        })
+        for (const { topic, msg } of batch) {
+          if (topic === NNGTopic.BLOCK_DISCONNECTED) {
+            await this.disconnectBlock(msg)
+          }
+        }
+        await this.sync()
+      }
+    } catch (e) {
+      this.emit(
+        'error',
+        e instanceof IndexerError
+          ? e
+          : new IndexerError(ERR.NNG_PROCESS_MESSAGE, (e as Error).message),
+      )
+    } finally {
+      this.processing = false
+    }
+  }
+
+  /**
+   * Rewinds a disconnected block, and any blocks built on it, if indexed
+   * @param msg - The disconnected block message
+   */
+  private async disconnectBlock(msg: NNGBlockMessage) {
+    const block = await prisma.block.findUnique({
+      where: { id: msg.hash },
+      select: { height: true },
+    })
+    if (block) {
+      await this.rewind(block.height - 1)
+    }
+  }
+
+  /**
+   * Indexes every block between the local tip and the Chronik tip, rewinding
+   * first if the next block does not build on the stored tip
+   */
+  private async sync() {
+    try {
+      const { tipHeight } = await chronikClient.blockchainInfo()
+      let tip = await this.getLocalTip()
+      reportProgress(tip.height, tipHeight)
+      while (tip.height < tipHeight) {
+        const startHeight = tip.height + 1
+        const endHeight = Math.min(
+          startHeight + IDX_BLOCK_BATCH_SIZE - 1,
+          tipHeight,
+        )
+        const blocks = await Promise.all(
+          Array.from({ length: endHeight - startHeight + 1 }, (_, i) =>
+            chronikClient.block(startHeight + i),
+          ),
+        )
+        // the stored tip was reorged out, rewind to the fork point and retry
+        if (tip.hash && blocks[0]!.blockInfo.prevHash !== tip.hash) {
+          await this.rewind(await this.findForkHeight(tip.height))
+          tip = await this.getLocalTip()
+          continue
+        }
+        await this.indexBlocks(blocks)
+        this.emit('indexed', endHeight)
+        log.info('sync', { startHeight, endHeight, tipHeight })
+        tip = {
+          height: endHeight,
+          hash: blocks[blocks.length - 1]!.blockInfo.hash,
+        }
+        reportProgress(endHeight, tipHeight)
+      }
+    } catch (e) {
+      if (e instanceof IndexerError) {
+        throw e
+      }
+      throw new IndexerError(ERR.IDX_BLOCKS_SYNC, (e as Error).message)
+    }
+  }
+
+  /**
+   * Gets the height and hash of the most recently indexed block
+   * @returns The local tip, or genesis (height 0, no hash) if no blocks are indexed
+   */
+  private async getLocalTip(): Promise<{ height: number; hash?: string }> {
+    const tip = await prisma.block.findFirst({
+      orderBy: { height: 'desc' },
+      select: { height: true, id: true },
+    })
+    return tip ? { height: tip.height, hash: tip.id } : { height: 0 }
+  }
+
+  /**
+   * Walks back from the given height until the stored block hash matches the
+   * block hash reported by Chronik
+   * @param height - The height to start searching from
+   * @returns The height of the last block shared by both branches
+   */
+  private async findForkHeight(height: number): Promise<number> {
+    while (height > 0) {
+      const startHeight = Math.max(height - IDX_BLOCK_BATCH_SIZE + 1, 1)
+      const [stored, blockInfos] = await Promise.all([
+        prisma.block.findMany({
+          where: { height: { gte: startHeight, lte: height } },
+          select: { id: true, height: true },
+        }),
+        chronikClient.blocks(startHeight, height),
+      ])
+      const hashes = new Map(blockInfos.map(b => [b.height, b.hash]))
+      const shared = stored
+        .filter(block => hashes.get(block.height) === block.id)
+        .sort((a, b) => b.height - a.height)[0]
+      if (shared) {
+        return shared.height
+      }
+      height = startHeight - 1
+    }
+    return 0
+  }
+
+  /**
+   * Deletes every block and RANK vote above the fork height, subtracts their
+   * totals from the stats and profiles and recomputes the charts in one
+   * transaction
+   * @param forkHeight - The height of the last block to keep
+   */
+  private async rewind(forkHeight: number) {
+    try {
+      const rewound = await prisma.$transaction(
+        async tx => {
+          const blocks = await tx.block.findMany({
+            where: { height: { gt: forkHeight } },
+          })
+          if (blocks.length === 0) {
+            return 0
+          }
+          const totals = sumBlockTotals(blocks)
+          await rewindProfiles(tx, forkHeight)
+          await tx.block.deleteMany({ where: { height: { gt: forkHeight } } })
+          await tx.stat.update({
+            where: { id: this.statId },
+            data: {
+              blocks: { decrement: blocks.length },
+              supplyTotal: { decrement: totals.subsidy },
+              burnedTotal: { decrement: totals.burned },
+              txsTotal: { decrement: totals.txs },
+            },
+          })
+          await storeCharts(tx)
+          return blocks.length
+        },
+        { timeout: IDX_TX_TIMEOUT, maxWait: IDX_TX_MAX_WAIT },
+      )
+      if (rewound > 0) {
+        log.warn('rewind', { forkHeight, blocks: rewound })
+        indexerHeight.set(forkHeight)
+        this.emit('rewind', forkHeight)
+      }
+    } catch (e) {
+      if (e instanceof IndexerError) {
+        throw e
+      }
+      throw new IndexerError(ERR.IDX_BLOCKS_REWIND, (e as Error).message)
+    }
+  }
+
+  /**
+   * Stores a range of blocks and their RANK votes, updating the stats and
+   * profile totals in one transaction
+   * @param chronikBlocks - The blocks returned by Chronik, in height order
+   */
+  private async indexBlocks(chronikBlocks: ChronikBlock[]) {
+    const blocks = chronikBlocks.map(toBlock)
+    const totals = sumBlockTotals(blocks)
+    const votes = chronikBlocks.flatMap(toRankVotes)
+
+    await prisma.$transaction([
+      prisma.block.createMany({ data: blocks }),
+      prisma.rankVote.createMany({ data: votes }),
+      ...sumProfileTotals(votes).map(profile =>
+        prisma.rankProfile.upsert(toProfileUpsert(profile)),
+      ),
+      prisma.stat.update({
+        where: { id: this.statId },
+        data: {
+          blocks: { increment: blocks.length },
+          supplyTotal: { increment: totals.subsidy },
+          burnedTotal: { increment: totals.burned },
+          txsTotal: { increment: totals.txs },
+        },
+      }),
+    ])
+  }
+}
+
+/**
+ * Deletes the RANK votes above the fork height and subtracts them from their
+ * profile totals
+ * @param tx - The interactive transaction client of the rewind
+ * @param forkHeight - The height of the last block to keep
+ */
+async function rewindProfiles(
+  tx: Prisma.TransactionClient,
+  forkHeight: number,
+) {
+  try {
+    const votes = await tx.rankVote.findMany({
+      where: { height: { gt: forkHeight } },
+      select: { platform: true, profileId: true, sentiment: true, sats: true },
+    })
+    for (const profile of sumProfileTotals(votes)) {
+      await tx.rankProfile.update(toProfileRewind(profile))
+    }
+    await tx.rankVote.deleteMany({ where: { height: { gt: forkHeight } } })
+  } catch (e) {
+    throw new IndexerError(ERR.IDX_PROFILE_REWIND, (e as Error).message)
+  }
+}
+
+/**
+ * Sums the subsidy, burned sats and non-coinbase transactions of blocks
+ * @param blocks - The blocks to sum
+ * @returns The aggregate totals
+ */
+function sumBlockTotals(
+  blocks: Pick<Block, 'subsidy' | 'burned' | 'numTxs'>[],
+) {
+  return blocks.reduce(
+    (acc, block) => {
+      acc.subsidy += block.subsidy
+      acc.burned += block.burned
+      // exclude coinbase
+      acc.txs += block.numTxs - 1
+      return acc
+    },
+    { subsidy: 0n, burned: 0n, txs: 0 },
+  )
+}
+
+/**
+ * Converts a Chronik block to a `Block` row
+ * @param block - The block returned by Chronik
+ * @returns The block data to store in the database
+ */
+function toBlock({ blockInfo, txs }: ChronikBlock): Block {
+  return {
+    id: blockInfo.hash,
+    height: blockInfo.height,
+    timestamp: BigInt(blockInfo.timestamp),
+    difficulty: toDifficulty(blockInfo.nBits),
+    minedBy: (txs[0] && getMinerAddress(txs[0])) ?? '',
+    subsidy: BigInt(blockInfo.sumCoinbaseOutputSats),
+    burned: BigInt(blockInfo.sumBurnedSats),
+    numTxs: Number(blockInfo.numTxs),
+  }
+}
+
+/**
+ * Sets the indexer height and lag gauges
+ * @param height - The height of the highest indexed block
+ * @param tipHeight - The height of the Chronik tip
+ */
+function reportProgress(height: number, tipHeight: number) {
+  indexerHeight.set(height)
+  indexerLagBlocks.set(Math.max(tipHeight - height, 0))
+}
@@ -0,0 +1,130 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { chronikClient, nngClient, rpcClient } from '../modules/index.js'
+import { NNGTopic } from '../modules/nng.js'
+import { Mempool } from './mempool.js'
+import type { Tx } from 'chronik-client'
+
+const { node } = vi.hoisted(() => ({
+  /** Txids in the node's mempool */
+  node: { mempool: [] as string[] },
+}))
+
+vi.mock('lotus-nng-client', async () => {
+  const { EventEmitter } = await import('node:events')
+  return { NNGClient: EventEmitter }
+})
+vi.mock('../modules/index.js', async () => {
+  const { EventEmitter } = await import('node:events')
+  return {
+    nngClient: Object.assign(new EventEmitter(), { subscribe: vi.fn() }),
+    chronikClient: { tx: vi.fn(async (txid: string) => toChronikTx(txid)) },
+    rpcClient: { getRawMemPool: vi.fn(async () => [...node.mempool]) },
+  }
+})
+
+let mempool: Mempool
+
+beforeEach(() => {
+  node.mempool = []
+  mempool = new Mempool()
+})
+
+afterEach(() => {
+  mempool.stop()
+  vi.clearAllMocks()
+})
+
+describe('Mempool', () => {
+  it('seeds the tracked transactions from RPC', async () => {
+    node.mempool = ['t1', 't2']
+
+    await mempool.start()
+
+    expect(mempool.getTxids(0, 10)).toEqual(['t2', 't1'])
+  })
+
+  it('follows transactions added and removed over NNG', async () => {
+    await mempool.start()
+
+    nngClient.emit(NNGTopic.MEMPOOL_TX_ADD, { txid: 't1' })
+    nngClient.emit(NNGTopic.MEMPOOL_TX_ADD, { txid: 't2' })
+    await vi.waitFor(() => expect(mempool.size).toBe(2))
+    nngClient.emit(NNGTopic.MEMPOOL_TX_REMOVE, { txid: 't1' })
+
+    expect(mempool.getTxids(0, 10)).toEqual(['t2'])
+  })
+
+  it('does not track transactions removed while being fetched', async () => {
+    await mempool.start()
+    const fetched = deferred()
+    vi.mocked(chronikClient.tx).mockImplementationOnce(async txid => {
+      await fetched.promise
+      return toChronikTx(txid)
+    })
+
+    nngClient.emit(NNGTopic.MEMPOOL_TX_ADD, { txid: 't1' })
+    nngClient.emit(NNGTopic.MEMPOOL_TX_REMOVE, { txid: 't1' })
+    fetched.resolve()
+    await new Promise(resolve => setImmediate(resolve))
+
+    expect(mempool.size).toBe(0)
+  })
+
+  it('reconciles with RPC when a block is connected', async () => {
+    node.mempool = ['t1', 't2', 't3']
+    await mempool.start()
+
+    node.mempool = ['t3', 't4']
+    nngClient.emit(NNGTopic.BLOCK_CONNECTED, { hash: 'b1', height: 1 })
+
+    await vi.waitFor(() =>
+      expect(mempool.getTxids(0, 10)).toEqual(['t4', 't3']),
+    )
+  })
+
+  it('keeps transactions added while the RPC snapshot is requested', async () => {
+    node.mempool = ['t1', 't2']
+    await mempool.start()
+    const snapshot = deferred<string[]>()
+    vi.mocked(rpcClient.getRawMemPool).mockReturnValueOnce(snapshot.promise)
+
+    nngClient.emit(NNGTopic.BLOCK_CONNECTED, { hash: 'b1', height: 1 })
+    nngClient.emit(NNGTopic.MEMPOOL_TX_ADD, { txid: 't3' })
+    await vi.waitFor(() => expect(mempool.size).toBe(3))
+    // t1 was mined; t3 is too recent to be in the snapshot
+    snapshot.resolve(['t2'])
+
+    await vi.waitFor(() =>
+      expect(mempool.getTxids(0, 10)).toEqual(['t3', 't2']),
+    )
+  })
+})
+
+// ======================================
+// Fakes
+// ======================================
+
+/**
+ * Gets a transaction from the fake Chronik
+ * @param txid - The txid
+ * @returns The unconfirmed Chronik transaction
+ */
+function toChronikTx(txid: string) {
+  return {
+    txid,
+    size: 200,
+    inputs: [{ value: '1000' }],
+    outputs: [{ value: '800', outputScript: '76a914' }],
+    timeFirstSeen: '1700000000',
+  } as unknown as Tx
+}
+
+/**
+ * Creates a promise resolved from outside, to hold a call in flight
+ * @returns The promise and its resolve function
+ */
+function deferred<T = void>() {
+  let resolve!: (value: T) => void
+  const promise = new Promise<T>(r => (resolve = r))
+  return { promise, resolve }
+}
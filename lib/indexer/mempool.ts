@@ -0,0 +1,395 @@
+import cluster from 'node:cluster'
+import { EventEmitter } from 'node:events'
+import { chronikClient, nngClient, rpcClient } from '../modules/index.js'
+import { NNGTopic } from '../modules/nng.js'
+import {
+  IDX_MEMPOOL_SYNC_RETRY_DELAY,
+  NNG_MESSAGE_BATCH_SIZE,
+} from '../../utils/constants.js'
+import { getSumBurnedSats } from '../../utils/functions.js'
+import { logger } from '../../utils/logger.js'
+import type { Worker } from 'node:cluster'
+import type { Tx } from 'chronik-client'
+import type { NNGMempoolMessage } from '../modules/nng.js'
+
+const log = logger.child({ component: 'mempool' })
+
+/**
+ * Unconfirmed transaction tracked by the mempool
+ */
+export interface MempoolTx {
+  /** Transaction ID */
+  txid: string
+  /** Serialized size in bytes */
+  size: number
+  /** Fee paid, in satoshis */
+  fee: bigint
+  /** Sum of satoshis burned in OP_RETURN outputs */
+  sumBurnedSats: bigint
+  /** Time the transaction was first seen, in seconds */
+  timeFirstSeen: string
+}
+
+/**
+ * Aggregate totals for the transactions in the mempool
+ */
+export interface MempoolSummary {
+  /** Number of transactions */
+  txCount: number
+  /** Total size of all transactions in bytes */
+  totalSize: number
+  /** Total fees paid, in satoshis */
+  totalFee: string
+  /** Total satoshis pending to be burned in OP_RETURN outputs */
+  sumBurnedSats: string
+}
+
+/**
+ * Mempool entry as sent over IPC, with its amounts as strings
+ */
+type SerializedMempoolTx = Omit<MempoolTx, 'fee' | 'sumBurnedSats'> & {
+  fee: string
+  sumBurnedSats: string
+}
+
+/**
+ * Mempool message exchanged between the cluster primary, which tracks the
+ * mempool, and the workers following it
+ */
+export type MempoolMessage = {
+  /** Message channel, used to tell mempool messages apart */
+  channel: 'mempool'
+} & (
+  | { type: 'sync' }
+  | { type: 'snapshot'; txs: SerializedMempoolTx[] }
+  | { type: 'add'; tx: Tx }
+  | { type: 'remove'; txid: string }
+)
+
+/**
+ * In-memory view of the node's unconfirmed transactions
+ *
+ * Seeded from RPC on startup, retrying until the node is reachable, then kept
+ * up to date from the NNG pub socket's mempool events. The mempool is
+ * reconciled against RPC whenever a block is connected, since mined
+ * transactions are not published as removals.
+ *
+ * In cluster mode the primary tracks the mempool and shares it with the
+ * workers (see `share()`), which follow it over IPC rather than each syncing
+ * it from Chronik and RPC (see `follow()`).
+ *
+ * Emits `add` with the Chronik `Tx` of each added transaction and `remove`
+ * with the txid of each removed transaction.
+ * @extends {EventEmitter}
+ */
+export class Mempool extends EventEmitter {
+  /** Tracked transactions, in insertion order */
+  private txs = new Map<string, MempoolTx>()
+  /** Txids being fetched from Chronik before they are tracked */
+  private fetching = new Set<string>()
+  /** Txids removed from the mempool while being fetched */
+  private removedWhileFetching = new Set<string>()
+  /** Timer retrying a failed startup sync */
+  private retryTimer?: NodeJS.Timeout
+
+  /** NNG `mempooltxadd` handler */
+  private onTxAdd = (msg: NNGMempoolMessage) =>
+    this.add(msg.txid).catch(e => this.onError(e))
+  /** NNG `mempooltxrem` handler */
+  private onTxRemove = (msg: NNGMempoolMessage) => this.remove(msg.txid)
+  /** NNG `blkconnected` handler */
+  private onBlockConnected = () => this.reconcile().catch(e => this.onError(e))
+  /** `add` handler sending the tx to the cluster workers */
+  private onShareAdd = (tx: Tx) =>
+    broadcast({ channel: 'mempool', type: 'add', tx })
+  /** `remove` handler sending the txid to the cluster workers */
+  private onShareRemove = (txid: string) =>
+    broadcast({ channel: 'mempool', type: 'remove', txid })
+  /** Handler of the snapshot requests of the cluster workers */
+  private onWorkerMessage = (worker: Worker, msg: MempoolMessage) => {
+    if (msg?.channel === 'mempool' && msg.type === 'sync') {
+      send(worker, {
+        channel: 'mempool',
+        type: 'snapshot',
+        txs: [...this.txs.values()].map(toSerializedMempoolTx),
+      })
+    }
+  }
+  /** Handler of the mempool updates sent by the cluster primary */
+  private onPrimaryMessage = (msg: MempoolMessage) => {
+    if (msg?.channel !== 'mempool') {
+      return
+    }
+    switch (msg.type) {
+      case 'snapshot':
+        this.txs = new Map(
+          msg.txs.map(tx => [tx.txid, toMempoolTxFromSerialized(tx)]),
+        )
+        return
+      case 'add':
+        this.track(msg.tx)
+        return
+      case 'remove':
+        this.remove(msg.txid)
+        return
+    }
+  }
+
+  /**
+   * Begins following mempool events and seeds the mempool from RPC
+   *
+   * A failed seed is logged and retried after `IDX_MEMPOOL_SYNC_RETRY_DELAY`
+   * rather than raised, so the API keeps serving while the node is unavailable.
+   */
+  public async start(): Promise<void> {
+    nngClient.on(NNGTopic.MEMPOOL_TX_ADD, this.onTxAdd)
+    nngClient.on(NNGTopic.MEMPOOL_TX_REMOVE, this.onTxRemove)
+    nngClient.on(NNGTopic.BLOCK_CONNECTED, this.onBlockConnected)
+    nngClient.subscribe([
+      NNGTopic.MEMPOOL_TX_ADD,
+      NNGTopic.MEMPOOL_TX_REMOVE,
+      NNGTopic.BLOCK_CONNECTED,
+    ])
+
+    await this.sync()
+  }
+
+  /**
+   * Sends the tracked transactions and every later change to the cluster
+   * workers, so they do not each track the mempool; called in the primary
+   */
+  public share(): void {
+    this.on('add', this.onShareAdd)
+    this.on('remove', this.onShareRemove)
+    cluster.on('message', this.onWorkerMessage)
+  }
+
+  /**
+   * Follows the mempool tracked by the cluster primary instead of tracking
+   * it, requesting a snapshot of it first; called in the workers
+   */
+  public follow(): void {
+    process.on('message', this.onPrimaryMessage)
+    const msg: MempoolMessage = { channel: 'mempool', type: 'sync' }
+    process.send?.(msg)
+  }
+
+  /**
+   * Stops following mempool events and clears the tracked transactions
+   */
+  public stop(): void {
+    nngClient.off(NNGTopic.MEMPOOL_TX_ADD, this.onTxAdd)
+    nngClient.off(NNGTopic.MEMPOOL_TX_REMOVE, this.onTxRemove)
+    nngClient.off(NNGTopic.BLOCK_CONNECTED, this.onBlockConnected)
+    this.off('add', this.onShareAdd)
+    this.off('remove', this.onShareRemove)
+    cluster.off('message', this.onWorkerMessage)
+    process.off('message', this.onPrimaryMessage)
+    clearTimeout(this.retryTimer)
+    this.txs.clear()
+  }
+
+  /**
+   * Gets the aggregate totals for the tracked transactions
+   * @returns The mempool summary
+   */
+  public getSummary(): MempoolSummary {
+    let totalSize = 0
+    let totalFee = 0n
+    let sumBurnedSats = 0n
+    for (const tx of this.txs.values()) {
+      totalSize += tx.size
+      totalFee += tx.fee
+      sumBurnedSats += tx.sumBurnedSats
+    }
+    return {
+      txCount: this.txs.size,
+      totalSize,
+      totalFee: totalFee.toString(),
+      sumBurnedSats: sumBurnedSats.toString(),
+    }
+  }
+
+  /**
+   * Gets a page of txids, most recently added first
+   * @param page - Page number, 0-indexed
+   * @param pageSize - Number of txids per page
+   * @returns The txids on the requested page
+   */
+  public getTxids(page: number, pageSize: number): string[] {
+    const txids = [...this.txs.keys()].reverse()
+    return txids.slice(page * pageSize, (page + 1) * pageSize)
+  }
+
+  /**
+   * Number of transactions in the mempool
+   */
+  public get size(): number {
+    return this.txs.size
+  }
+
+  /**
+   * Fetches a transaction from Chronik and starts tracking it
+   * @param txid - The txid of the transaction added to the mempool
+   */
+  private async add(txid: string) {
+    if (this.txs.has(txid) || this.fetching.has(txid)) {
+      return
+    }
+    this.fetching.add(txid)
+    try {
+      const tx = await chronikClient.tx(txid)
+      // the tx may have been confirmed or removed while it was being fetched
+      if (tx.block || this.removedWhileFetching.has(txid)) {
+        return
+      }
+      this.track(tx)
+    } finally {
+      this.fetching.delete(txid)
+      this.removedWhileFetching.delete(txid)
+    }
+  }
+
+  /**
+   * Starts tracking a fetched transaction
+   * @param tx - The transaction returned by Chronik
+   */
+  private track(tx: Tx) {
+    this.txs.set(tx.txid, toMempoolTx(tx))
+    this.emit('add', tx)
+  }
+
+  /**
+   * Stops tracking a transaction, or keeps it from being tracked if it is
+   * still being fetched
+   * @param txid - The txid of the transaction removed from the mempool
+   */
+  private remove(txid: string) {
+    if (this.fetching.has(txid)) {
+      this.removedWhileFetching.add(txid)
+    }
+    if (this.txs.delete(txid)) {
+      this.emit('remove', txid)
+    }
+  }
+
+  /**
+   * Seeds the tracked transactions from RPC, retrying after
+   * `IDX_MEMPOOL_SYNC_RETRY_DELAY` until it succeeds
+   */
+  private async sync() {
+    try {
+      await this.reconcile()
+      log.info('synced', { txCount: this.txs.size })
+    } catch (e) {
+      log.error('sync failed', {
+        error: (e as Error).message,
+        retryIn: IDX_MEMPOOL_SYNC_RETRY_DELAY,
+      })
+      this.retryTimer = setTimeout(
+        () => this.sync(),
+        IDX_MEMPOOL_SYNC_RETRY_DELAY,
+      )
+    }
+  }
+
+  /**
+   * Syncs the tracked transactions with the node's mempool from RPC
+   *
+   * Only transactions tracked before the RPC snapshot was requested are
+   * removed when missing from it, since transactions added from NNG events
+   * in the meantime may be too recent to be in the snapshot.
+   */
+  private async reconcile() {
+    const tracked = [...this.txs.keys()]
+    const txids = new Set(await rpcClient.getRawMemPool())
+    for (const txid of tracked) {
+      if (!txids.has(txid)) {
+        this.remove(txid)
+      }
+    }
+
+    const missing = [...txids].filter(txid => !this.txs.has(txid))
+    for (let i = 0; i < missing.length; i += NNG_MESSAGE_BATCH_SIZE) {
+      const batch = missing.slice(i, i + NNG_MESSAGE_BATCH_SIZE)
+      // a tx may leave the mempool before Chronik returns it, so skip failures
+      await Promise.allSettled(batch.map(txid => this.add(txid)))
+    }
+  }
+
+  /**
+   * Logs an error raised while handling a mempool event
+   * @param e - The error raised
+   */
+  private onError(e: Error) {
+    log.error('NNG message failed', { error: e.message })
+  }
+}
+
+/**
+ * Converts a Chronik transaction to a mempool entry
+ * @param tx - The transaction returned by Chronik
+ * @returns The mempool entry
+ */
+function toMempoolTx(tx: Tx): MempoolTx {
+  const sumInputs = tx.inputs.reduce((acc, i) => acc + BigInt(i.value), 0n)
+  const sumOutputs = tx.outputs.reduce((acc, o) => acc + BigInt(o.value), 0n)
+  return {
+    txid: tx.txid,
+    size: tx.size,
+    fee: sumInputs - sumOutputs,
+    sumBurnedSats: getSumBurnedSats(tx),
+    timeFirstSeen: tx.timeFirstSeen,
+  }
+}
+
+/**
+ * Converts a mempool entry to its IPC form
+ * @param tx - The mempool entry
+ * @returns The serialized mempool entry
+ */
+function toSerializedMempoolTx(tx: MempoolTx): SerializedMempoolTx {
+  return {
+    ...tx,
+    fee: tx.fee.toString(),
+    sumBurnedSats: tx.sumBurnedSats.toString(),
+  }
+}
+
+/**
+ * Converts a mempool entry received over IPC back to a mempool entry
+ * @param tx - The serialized mempool entry
+ * @returns The mempool entry
+ */
+function toMempoolTxFromSerialized(tx: SerializedMempoolTx): MempoolTx {
+  return {
+    ...tx,
+    fee: BigInt(tx.fee),
+    sumBurnedSats: BigInt(tx.sumBurnedSats),
+  }
+}
+
+/**
+ * Sends a mempool message to a cluster worker, if it is still connected
+ * @param worker - The worker
+ * @param msg - The message
+ */
+function send(worker: Worker, msg: MempoolMessage) {
+  if (worker.isConnected()) {
+    worker.send(msg)
+  }
+}
+
+/**
+ * Sends a mempool message to every cluster worker
+ * @param msg - The message
+ */
+function broadcast(msg: MempoolMessage) {
+  for (const worker of Object.values(cluster.workers ?? {})) {
+    if (worker) {
+      send(worker, msg)
+    }
+  }
+}
+
+export const mempool = new Mempool()
@@ -0,0 +1,113 @@
+import { prisma, rpcClient } from '../modules/index.js'
+import { lookupGeoIP } from '../modules/geoip.js'
+import {
+  PEER_SNAPSHOT_INTERVAL,
+  PEER_SNAPSHOT_RETENTION,
+} from '../../utils/constants.js'
+import { toPublicPeerAddress } from '../../utils/functions.js'
+import { logger } from '../../utils/logger.js'
+import type { PeerInfo } from 'xpi-ts/lib/rpc'
+
+const log = logger.child({ component: 'peers' })
+
+/**
+ * Periodically stores the public peers the node is connected to, with their
+ * client version and location, so the network's decentralization and upgrade
+ * adoption can be tracked over time
+ *
+ * Each snapshot adds one `PeerSnapshot` row per peer and updates the peer's
+ * `Peer` row; snapshots older than `PEER_SNAPSHOT_RETENTION` are pruned.
+ */
+export class PeerSnapshots {
+  /** Interval for taking snapshots */
+  private timer?: NodeJS.Timeout
+  /** Whether a snapshot is currently being taken */
+  private snapshotting = false
+
+  /**
+   * Takes a snapshot now and every `PEER_SNAPSHOT_INTERVAL`
+   */
+  public start() {
+    if (this.timer) {
+      return
+    }
+    this.timer = setInterval(() => this.snapshot(), PEER_SNAPSHOT_INTERVAL)
+    this.timer.unref()
+    this.snapshot()
+  }
+
+  /**
+   * Stops taking snapshots
+   */
+  public stop() {
+    clearInterval(this.timer)
+    delete this.timer
+  }
+
+  /**
+   * Takes and stores a snapshot of the node's peers. Calls made while a
+   * snapshot is in progress are skipped.
+   */
+  public async snapshot(): Promise<void> {
+    if (this.snapshotting) {
+      return
+    }
+    this.snapshotting = true
+    try {
+      await this.store()
+    } catch (e) {
+      log.error('snapshot failed', { error: (e as Error).message })
+    } finally {
+      this.snapshotting = false
+    }
+  }
+
+  /**
+   * Gets the node's public peers and their locations, then stores them
+   */
+  private async store() {
+    const timestamp = BigInt(Math.floor(Date.now() / 1000))
+    const peers = new Map<string, Pick<PeerInfo, 'subver' | 'version'>>()
+    for (const { addr, subver, version } of await rpcClient.getPeerInfo()) {
+      const ip = toPublicPeerAddress(addr)
+      if (ip) {
+        peers.set(ip, { subver, version })
+      }
+    }
+    const locations = await lookupGeoIP([...peers.keys()])
+    const snapshots = [...peers].map(([addr, { subver, version }]) => ({
+      addr,
+      subver,
+      version,
+      country: locations.get(addr)?.country ?? null,
+      city: locations.get(addr)?.city ?? null,
+    }))
+
+    await prisma.$transaction([
+      prisma.peerSnapshot.createMany({
+        data: snapshots.map(({ addr, subver, version, country }) => ({
+          id: `${timestamp}:${addr}`,
+          timestamp,
+          addr,
+          subver,
+          version,
+          country,
+        })),
+        skipDuplicates: true,
+      }),
+      ...snapshots.map(({ addr, ...peer }) =>
+        prisma.peer.upsert({
+          where: { addr },
+          create: { addr, ...peer, firstSeen: timestamp, lastSeen: timestamp },
+          update: { ...peer, lastSeen: timestamp },
+        }),
+      ),
+      prisma.peerSnapshot.deleteMany({
+        where: {
+          timestamp: { lt: timestamp - BigInt(PEER_SNAPSHOT_RETENTION) },
+        },
+      }),
+    ])
+    log.debug('stored snapshot', { peers: snapshots.length })
+  }
+}
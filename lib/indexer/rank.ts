@@ -0,0 +1,165 @@
+import * as Bitcore from 'xpi-ts/lib/bitcore'
+import { decodeOpReturn } from '../api/opreturn.js'
+import type { Block as ChronikBlock, Tx } from 'chronik-client'
+import type { Prisma, RankVote } from '../../generated/prisma/index.js'
+
+/**
+ * Changes to apply to a profile's RANK totals
+ */
+export interface RankProfileTotals {
+  /** Platform of the profile */
+  platform: string
+  /** Profile ID */
+  profileId: string
+  /** Burned sats in positive votes */
+  satsPositive: bigint
+  /** Burned sats in negative votes */
+  satsNegative: bigint
+  /** Number of positive votes */
+  votesPositive: number
+  /** Number of negative votes */
+  votesNegative: number
+  /** Number of neutral votes */
+  votesNeutral: number
+}
+
+/**
+ * Parses every RANK output in a block into a `RankVote` row
+ * @param block - The block returned by Chronik
+ * @returns The RANK votes to store in the database
+ */
+export function toRankVotes({ blockInfo, txs }: ChronikBlock): RankVote[] {
+  const votes: RankVote[] = []
+  for (const tx of txs) {
+    tx.outputs.forEach((output, outIdx) => {
+      // 0x6a = OP_RETURN
+      if (!output.outputScript.startsWith('6a')) {
+        return
+      }
+      // malformed and truncated data outputs are decoded as raw, not votes
+      const rankOutput = decodeOpReturn(Buffer.from(output.outputScript, 'hex'))
+      if (rankOutput?.protocol !== 'RANK') {
+        return
+      }
+      votes.push({
+        id: `${tx.txid}:${outIdx}`,
+        txid: tx.txid,
+        height: blockInfo.height,
+        timestamp: BigInt(blockInfo.timestamp),
+        platform: rankOutput.platform,
+        profileId: rankOutput.profileId,
+        postId: rankOutput.postId ?? null,
+        sentiment: rankOutput.sentiment,
+        sats: BigInt(output.value),
+        voter: getVoterAddress(tx),
+      })
+    })
+  }
+  return votes
+}
+
+/**
+ * Sums RANK votes into totals per profile
+ * @param votes - The votes to sum
+ * @returns The totals of each profile with votes
+ */
+export function sumProfileTotals(
+  votes: Pick<RankVote, 'platform' | 'profileId' | 'sentiment' | 'sats'>[],
+): RankProfileTotals[] {
+  const profiles = new Map<string, RankProfileTotals>()
+  for (const vote of votes) {
+    const key = `${vote.platform}:${vote.profileId}`
+    const totals = profiles.get(key) ?? {
+      platform: vote.platform,
+      profileId: vote.profileId,
+      satsPositive: 0n,
+      satsNegative: 0n,
+      votesPositive: 0,
+      votesNegative: 0,
+      votesNeutral: 0,
+    }
+    switch (vote.sentiment) {
+      case 'positive':
+        totals.satsPositive += vote.sats
+        totals.votesPositive++
+        break
+      case 'negative':
+        totals.satsNegative += vote.sats
+        totals.votesNegative++
+        break
+      default:
+        totals.votesNeutral++
+    }
+    profiles.set(key, totals)
+  }
+  return [...profiles.values()]
+}
+
+/**
+ * Builds the upsert adding a profile's totals to its `RankProfile` row
+ * @param totals - The totals to add
+ * @returns The upsert arguments
+ */
+export function toProfileUpsert(
+  totals: RankProfileTotals,
+): Prisma.RankProfileUpsertArgs {
+  const { platform, profileId, ...counts } = totals
+  return {
+    where: { platform_profileId: { platform, profileId } },
+    create: {
+      platform,
+      profileId,
+      profileIdLower: profileId.toLowerCase(),
+      ranking: counts.satsPositive - counts.satsNegative,
+      ...counts,
+    },
+    update: {
+      ranking: { increment: counts.satsPositive - counts.satsNegative },
+      satsPositive: { increment: counts.satsPositive },
+      satsNegative: { increment: counts.satsNegative },
+      votesPositive: { increment: counts.votesPositive },
+      votesNegative: { increment: counts.votesNegative },
+      votesNeutral: { increment: counts.votesNeutral },
+    },
+  }
+}
+
+/**
+ * Builds the update subtracting a profile's totals from its `RankProfile` row
+ * @param totals - The totals to subtract
+ * @returns The update arguments
+ */
+export function toProfileRewind(
+  totals: RankProfileTotals,
+): Prisma.RankProfileUpdateArgs {
+  const { platform, profileId, ...counts } = totals
+  return {
+    where: { platform_profileId: { platform, profileId } },
+    data: {
+      ranking: { decrement: counts.satsPositive - counts.satsNegative },
+      satsPositive: { decrement: counts.satsPositive },
+      satsNegative: { decrement: counts.satsNegative },
+      votesPositive: { decrement: counts.votesPositive },
+      votesNegative: { decrement: counts.votesNegative },
+      votesNeutral: { decrement: counts.votesNeutral },
+    },
+  }
+}
+
+/**
+ * Gets the address of the first input of a transaction, taken as the voter
+ * @param tx - The transaction containing the RANK output
+ * @returns The XAddress of the voter, or null if it could not be determined
+ */
+function getVoterAddress(tx: Tx): string | null {
+  const outputScript = tx.inputs[0]?.outputScript
+  if (!outputScript) {
+    return null
+  }
+  try {
+    const address = Bitcore.Script.fromHex(outputScript).toAddress()
+    return address ? address.toXAddress() : null
+  } catch {
+    return null
+  }
+}
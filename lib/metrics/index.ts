@@ -0,0 +1,144 @@
+import { Counter, Gauge, Histogram, register } from 'prom-client'
+
+export { register }
+
+/**
+ * Upstream services whose calls are instrumented
+ */
+export type UpstreamService = 'chronik' | 'rpc' | 'geoip'
+
+/**
+ * HTTP requests handled by the API, by route and status
+ */
+export const httpRequestsTotal = new Counter({
+  name: 'api_http_requests_total',
+  help: 'HTTP requests handled by the API',
+  labelNames: ['method', 'route', 'status'] as const,
+})
+
+/**
+ * Time taken to handle HTTP requests, by route and status
+ */
+export const httpRequestDuration = new Histogram({
+  name: 'api_http_request_duration_seconds',
+  help: 'Time taken to handle HTTP requests',
+  labelNames: ['method', 'route', 'status'] as const,
+})
+
+/**
+ * Requests rejected by the rate limiter, by rate limit policy
+ */
+export const rateLimitRejectionsTotal = new Counter({
+  name: 'api_rate_limit_rejections_total',
+  help: 'Requests rejected by the rate limiter',
+  labelNames: ['policy'] as const,
+})
+
+/**
+ * Time taken by calls to upstream services, by service and method
+ */
+export const upstreamRequestDuration = new Histogram({
+  name: 'upstream_request_duration_seconds',
+  help: 'Time taken by calls to upstream services',
+  labelNames: ['service', 'method'] as const,
+})
+
+/**
+ * Failed calls to upstream services, by service and method
+ */
+export const upstreamErrorsTotal = new Counter({
+  name: 'upstream_errors_total',
+  help: 'Failed calls to upstream services',
+  labelNames: ['service', 'method'] as const,
+})
+
+/**
+ * Whether the circuit of each upstream endpoint is closed (1) or open (0); in
+ * cluster mode an endpoint is reported down if any worker's circuit is open
+ */
+export const upstreamEndpointUp = new Gauge({
+  name: 'upstream_endpoint_up',
+  help: 'Whether the circuit of an upstream endpoint is closed',
+  labelNames: ['service', 'endpoint'] as const,
+  aggregator: 'min',
+})
+
+/**
+ * Shared cache lookups, by cache namespace and whether the key was found
+ */
+export const cacheRequestsTotal = new Counter({
+  name: 'cache_requests_total',
+  help: 'Shared cache lookups',
+  labelNames: ['cache', 'result'] as const,
+})
+
+/**
+ * Height of the highest indexed block, set by the indexer as it syncs; in
+ * cluster mode only the primary runs the indexer, so the highest value wins
+ */
+export const indexerHeight = new Gauge({
+  name: 'indexer_height',
+  help: 'Height of the highest indexed block',
+  aggregator: 'max',
+})
+
+/**
+ * Number of blocks the indexer is behind the Chronik tip, set by the indexer
+ * as it syncs
+ */
+export const indexerLagBlocks = new Gauge({
+  name: 'indexer_lag_blocks',
+  help: 'Number of blocks the indexer is behind the node',
+  aggregator: 'max',
+})
+
+/**
+ * Wraps a client so the latency and errors of every async method call are
+ * recorded. Objects returned by synchronous methods, e.g. Chronik's
+ * `script()` endpoint, are wrapped as well.
+ * @param client - The client to instrument
+ * @param service - The upstream service the client calls
+ * @param prefix - Prefix for the method label, used for nested endpoints
+ * @returns The instrumented client
+ */
+export function instrument<T extends object>(
+  client: T,
+  service: UpstreamService,
+  prefix = '',
+): T {
+  return new Proxy(client, {
+    get(target, property, receiver) {
+      const value = Reflect.get(target, property, receiver)
+      if (typeof value !== 'function' || typeof property !== 'string') {
+        return value
+      }
+      const method = `${prefix}${property}`
+      return (...args: unknown[]) => {
+        const result = value.apply(target, args)
+        if (result instanceof Promise) {
+          const end = upstreamRequestDuration.startTimer({ service, method })
+          return result.then(
+            response => {
+              end()
+              return response
+            },
+            error => {
+              end()
+              upstreamErrorsTotal.inc({ service, method })
+              throw error
+            },
+          )
+        }
+        if (
+          result !== null &&
+          typeof result === 'object' &&
+          !Array.isArray(result) &&
+          !ArrayBuffer.isView(result)
+        ) {
+          return instrument(result, service, `${method}.`)
+        }
+        return result
+      }
+    },
+  })
+}
@@ -1,4 +1,21 @@
 import { ChronikClient } from 'chronik-client'
+import { instrument } from '../metrics/index.js'
+import { UpstreamPool } from './upstream.js'
 import config from '../../config.js'
 
-export const chronikClient = new ChronikClient(config.chronik.url)
+/**
+ * Pool of the configured Chronik indexers, failing over between them
+ */
+export const chronikPool = new UpstreamPool(
+  'chronik',
+  config.chronik.urls.map(url => ({
+    name: url,
+    client: new ChronikClient(url),
+  })),
+  {
+    getTipHeight: async client => (await client.blockchainInfo()).tipHeight,
+    nonIdempotent: ['broadcastTx', 'broadcastTxs'],
+  },
+)
+
+export const chronikClient = instrument(chronikPool.client, 'chronik')
@@ -0,0 +1,187 @@
+import { readFile } from 'node:fs/promises'
+import { Reader } from 'mmdb-lib'
+import { SharedCache } from '../cluster/index.js'
+import { instrument } from '../metrics/index.js'
+import {
+  GEOIP_CACHE_MAX_ENTRIES,
+  GEOIP_CACHE_TTL,
+  GEOIP_LOOKUP_CONCURRENCY,
+  NODE_GEOIP_URL,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import config from '../../config.js'
+import type { CityResponse } from 'mmdb-lib'
+import type { GeoIPConfig } from '../../utils/types.js'
+
+const log = logger.child({ component: 'geoip' })
+
+/**
+ * Geographic location of an IP address
+ */
+export interface GeoIPData {
+  /** Country name */
+  country: string
+  /** City name */
+  city: string
+}
+
+/**
+ * Source of the geographic location of IP addresses
+ */
+export interface GeoIPProvider {
+  /**
+   * Looks up the location of an IP address
+   * @param ip - The IPv4 or IPv6 address
+   * @returns The location, or null if the address is not known
+   */
+  lookup(ip: string): Promise<GeoIPData | null>
+}
+
+/**
+ * Response from the remote GeoIP API
+ */
+interface GeoIPResponse {
+  /** Whether the request was successful */
+  success: boolean
+  /** HTTP status message */
+  status: string
+  /** The IP address that was looked up */
+  ip: string
+  /** Geographic location data */
+  data: GeoIPData
+  /** The type of IP address */
+  type: 'unicast'
+}
+
+/**
+ * Looks up locations with the third-party GeoIP API at `NODE_GEOIP_URL`,
+ * which receives every IP address looked up
+ */
+export class RemoteGeoIPProvider implements GeoIPProvider {
+  /** Max time (ms) for each request */
+  private timeout: number
+
+  /**
+   * Creates a new RemoteGeoIPProvider instance
+   * @param timeout - Max time (ms) for each request
+   */
+  constructor(timeout: number) {
+    this.timeout = timeout
+  }
+
+  async lookup(ip: string): Promise<GeoIPData | null> {
+    const response = await fetch(`${NODE_GEOIP_URL}/${ip}`, {
+      signal: AbortSignal.timeout(this.timeout),
+    })
+    const json = (await response.json()) as GeoIPResponse
+    return json.success ? json.data : null
+  }
+}
+
+/**
+ * Looks up locations in a local MaxMind-style City database (MMDB), e.g.
+ * GeoLite2-City, which is loaded into memory on the first lookup
+ */
+export class MMDBGeoIPProvider implements GeoIPProvider {
+  /** Path to the database file */
+  private path: string
+  /** Database reader, once the database is loaded */
+  private reader?: Promise<Reader<CityResponse>>
+
+  /**
+   * Creates a new MMDBGeoIPProvider instance
+   * @param path - Path to the database file
+   */
+  constructor(path: string) {
+    this.path = path
+  }
+
+  async lookup(ip: string): Promise<GeoIPData | null> {
+    this.reader ??= readFile(this.path).then(db => new Reader(db))
+    let reader: Reader<CityResponse>
+    try {
+      reader = await this.reader
+    } catch (e) {
+      // retry loading the database on the next lookup
+      delete this.reader
+      throw e
+    }
+    const result = reader.get(ip)
+    if (!result?.country) {
+      return null
+    }
+    return {
+      country: result.country.names.en,
+      city: result.city?.names.en ?? '',
+    }
+  }
+}
+
+/**
+ * Creates the GeoIP provider selected in the configuration
+ * @param config - The GeoIP configuration
+ * @returns The GeoIP provider
+ */
+function createGeoIPProvider(config: GeoIPConfig): GeoIPProvider {
+  switch (config.provider) {
+    case 'mmdb':
+      return new MMDBGeoIPProvider(config.databasePath)
+    case 'remote':
+      return new RemoteGeoIPProvider(config.timeoutMs)
+  }
+}
+
+export const geoIPProvider = instrument(
+  createGeoIPProvider(config.geoip),
+  'geoip',
+)
+
+/** Locations of looked up IP addresses, null if the address is not known */
+const GEOIP_CACHE = new SharedCache<GeoIPData | null>('geoip', {
+  ttl: GEOIP_CACHE_TTL,
+  maxEntries: GEOIP_CACHE_MAX_ENTRIES,
+})
+
+/**
+ * Looks up the locations of IP addresses, running up to
+ * `GEOIP_LOOKUP_CONCURRENCY` lookups at once and caching the results
+ *
+ * Failed lookups, e.g. timeouts, are logged and not cached, so the addresses
+ * are looked up again on the next call. Failed cache reads and writes are
+ * logged and treated as cache misses.
+ * @param ips - The IP addresses
+ * @returns The location of each address, or null if it is not known
+ */
+export async function lookupGeoIP(
+  ips: string[],
+): Promise<Map<string, GeoIPData | null>> {
+  const results = new Map<string, GeoIPData | null>()
+  const queue = [...new Set(ips)]
+  const lookupNext = async () => {
+    for (let ip = queue.shift(); ip !== undefined; ip = queue.shift()) {
+      try {
+        const cached = await GEOIP_CACHE.get(ip).catch(e => {
+          // a failed cache read, e.g. from the cluster primary, is a miss
+          log.warn('cache read failed', { ip, error: (e as Error).message })
+          return undefined
+        })
+        if (cached !== undefined) {
+          results.set(ip, cached)
+          continue
+        }
+        const data = await geoIPProvider.lookup(ip)
+        results.set(ip, data)
+        await GEOIP_CACHE.set(ip, data).catch(e =>
+          log.warn('cache write failed', { ip, error: (e as Error).message }),
+        )
+      } catch (e) {
+        log.warn('lookup failed', { ip, error: (e as Error).message })
+        results.set(ip, null)
+      }
+    }
+  }
+  await Promise.all(
+    Array.from({ length: GEOIP_LOOKUP_CONCURRENCY }, lookupNext),
+  )
+  return results
+}
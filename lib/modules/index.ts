@@ -1,2 +1,21 @@
+import { nngClient } from './nng.js'
+import { prisma } from './prisma.js'
+
+import { rpcPool } from './rpc.js'
+import { chronikPool } from './chronik.js'
+
 export { rpcClient } from './rpc.js'
 export { chronikClient } from './chronik.js'
+export { nngClient, prisma, rpcPool, chronikPool }
+
+/**
+ * Closes the NNG sockets and database connection, and stops health-checking
+ * the Chronik and RPC endpoints, whose clients otherwise make stateless HTTP
+ * requests.
+ */
+export async function closeModules(): Promise<void> {
+  chronikPool.stop()
+  rpcPool.stop()
+  nngClient.close()
+  await prisma.$disconnect()
+}
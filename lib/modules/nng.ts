@@ -0,0 +1,96 @@
+import { NNGClient } from 'lotus-nng-client'
+import config from '../../config.js'
+import {
+  NNG_MAX_SILENCE,
+  NNG_RPC_RCVMAXSIZE_POLICY,
+  NNG_SOCKET_RECONN,
+  NNG_SOCKET_MAXRECONN,
+  NNG_REQUEST_TIMEOUT_LENGTH,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+
+const log = logger.child({ component: 'nng' })
+
+/**
+ * Topics published by the Lotus node on its NNG pub socket
+ */
+export enum NNGTopic {
+  BLOCK_CONNECTED = 'blkconnected',
+  BLOCK_DISCONNECTED = 'blkdisconctd',
+  MEMPOOL_TX_ADD = 'mempooltxadd',
+  MEMPOOL_TX_REMOVE = 'mempooltxrem',
+}
+
+/**
+ * Block message received from the `blkconnected`/`blkdisconctd` topics
+ */
+export interface NNGBlockMessage {
+  /** Block hash, hex-encoded */
+  hash: string
+  /** Previous block hash, hex-encoded */
+  prevHash: string
+  /** Block height */
+  height: number
+}
+
+/**
+ * Transaction message received from the `mempooltxadd`/`mempooltxrem` topics
+ */
+export interface NNGMempoolMessage {
+  /** Transaction ID, hex-encoded */
+  txid: string
+}
+
+export const nngClient = new NNGClient({
+  pubSocketPath: config.nng.pubSocketPath,
+  rpcSocketPath: config.nng.rpcSocketPath,
+  rcvMaxSize: NNG_RPC_RCVMAXSIZE_POLICY,
+  reconnectTime: NNG_SOCKET_RECONN,
+  maxReconnectTime: NNG_SOCKET_MAXRECONN,
+  requestTimeout: NNG_REQUEST_TIMEOUT_LENGTH,
+})
+
+/** Time the pub socket connected, in milliseconds, or null if not connected */
+let connectedAt: number | null = null
+/** Time the last block message was received, in milliseconds, or null if none */
+let lastMessageAt: number | null = null
+
+// blocks arrive about every 2 minutes, so their messages show whether the pub
+// socket is still delivering
+nngClient.on(NNGTopic.BLOCK_CONNECTED, () => {
+  const now = Date.now()
+  const last = lastMessageAt ?? connectedAt
+  if (last !== null && now - last > NNG_MAX_SILENCE) {
+    log.warn('block messages resumed', { silentMs: now - last })
+  }
+  lastMessageAt = now
+})
+
+/**
+ * Connects the NNG client to the node's pub and RPC sockets
+ */
+export async function connectNNG(): Promise<void> {
+  await nngClient.connect()
+  connectedAt = Date.now()
+  log.info('connected', {
+    pubSocket: config.nng.pubSocketPath,
+    rpcSocket: config.nng.rpcSocketPath,
+  })
+}
+
+/**
+ * Gets the state of the NNG pub socket connection
+ *
+ * The socket is reported down if it never connected or no block message was
+ * received for `NNG_MAX_SILENCE` since it connected.
+ * @returns Whether the socket is up, and the time of the last block message
+ */
+export function getNNGStatus() {
+  const last = lastMessageAt ?? connectedAt
+  return {
+    up: last !== null && Date.now() - last <= NNG_MAX_SILENCE,
+    connected: connectedAt !== null,
+    lastMessageAt:
+      lastMessageAt === null ? null : new Date(lastMessageAt).toISOString(),
+  }
+}
@@ -1,9 +1,108 @@
 import { RPCClient } from 'xpi-ts'
+import { instrument } from '../metrics/index.js'
+import { UpstreamPool } from './upstream.js'
 import config from '../../config.js'
 
-export const rpcClient = new RPCClient({
-  address: config.rpc.address,
-  port: config.rpc.port,
-  user: config.rpc.user,
-  password: config.rpc.password,
-})
+/**
+ * Result of a `testmempoolaccept` dry-run for a single transaction
+ */
+export interface MempoolAcceptResult {
+  /** Transaction ID */
+  'txid': string
+  /** Whether the transaction would be accepted into the mempool */
+  'allowed': boolean
+  /** Reason the transaction would be rejected, if not allowed */
+  'reject-reason'?: string
+}
+
+/**
+ * JSON-RPC response returned by the node
+ */
+interface RPCResponse<T> {
+  /** Result of the call, null if it failed */
+  result: T
+  /** Error of the call, null if it succeeded */
+  error: { code: number; message: string } | null
+}
+
+/**
+ * RPC client with the transaction submission methods missing from `RPCClient`
+ * @extends {RPCClient}
+ */
+class NodeRPCClient extends RPCClient {
+  /**
+   * Submits a raw transaction to the node's mempool and relays it
+   * @param rawTx - The signed transaction, hex-encoded
+   * @returns The transaction ID
+   */
+  async sendRawTransaction(rawTx: string): Promise<string> {
+    return this.call<string>('sendrawtransaction', [rawTx])
+  }
+
+  /**
+   * Checks whether a raw transaction would be accepted into the mempool,
+   * without submitting it
+   * @param rawTx - The signed transaction, hex-encoded
+   * @returns The dry-run result
+   */
+  async testMempoolAccept(rawTx: string): Promise<MempoolAcceptResult> {
+    const [result] = await this.call<MempoolAcceptResult[]>(
+      'testmempoolaccept',
+      [[rawTx]],
+    )
+    if (!result) {
+      throw new Error('JSON-RPC error: empty testmempoolaccept result')
+    }
+    return result
+  }
+
+  /**
+   * Calls a JSON-RPC method of the node, raising errors in the same format as
+   * `RPCClient`, i.e. `JSON-RPC error: <message> (code: <code>)`
+   * @param method - The RPC method
+   * @param params - The positional parameters of the method
+   * @returns The result of the call
+   */
+  private async call<T>(method: string, params: unknown[]): Promise<T> {
+    const { address, port, user, password } = this.config
+    const response = await fetch(`http://${address}:${port}`, {
+      method: 'POST',
+      body: JSON.stringify({ method, params }),
+      headers: {
+        Authorization: `Basic ${Buffer.from(`${user}:${password}`).toString('base64')}`,
+      },
+    })
+    const json = (await response.json()) as RPCResponse<T>
+    if (json.error) {
+      throw new Error(
+        `JSON-RPC error: ${json.error.message} (code: ${json.error.code})`,
+      )
+    }
+    return json.result
+  }
+}
+
+/**
+ * Pool of the configured RPC nodes, failing over between them
+ */
+export const rpcPool = new UpstreamPool(
+  'rpc',
+  config.rpc.addresses.map(address => {
+    const { hostname, port } = new URL(`http://${address}`)
+    return {
+      name: address,
+      client: new NodeRPCClient({
+        address: hostname,
+        port: port ? Number(port) : config.rpc.port,
+        user: config.rpc.user,
+        password: config.rpc.password,
+      }),
+    }
+  }),
+  {
+    getTipHeight: client => client.getBlockCount(),
+    nonIdempotent: ['sendRawTransaction'],
+  },
+)
+
+export const rpcClient = instrument(rpcPool.client, 'rpc')
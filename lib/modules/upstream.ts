@@ -0,0 +1,486 @@
+import { setTimeout as sleep } from 'node:timers/promises'
+import { upstreamEndpointUp } from '../metrics/index.js'
+import {
+  UPSTREAM_BREAKER_COOLDOWN,
+  UPSTREAM_BREAKER_THRESHOLD,
+  UPSTREAM_HEALTH_CHECK_INTERVAL,
+  UPSTREAM_MAX_ATTEMPTS,
+  UPSTREAM_MAX_TIP_LAG,
+  UPSTREAM_RETRY_DELAY,
+  UPSTREAM_TIMEOUT,
+} from '../../utils/constants.js'
+import { logger } from '../../utils/logger.js'
+import type { UpstreamService } from '../metrics/index.js'
+
+const log = logger.child({ component: 'upstream' })
+
+/**
+ * State of an endpoint's circuit breaker: `closed` endpoints take calls,
+ * `open` endpoints are skipped until the cooldown has passed, then let a
+ * single trial call through while `half-open`
+ */
+type CircuitState = 'closed' | 'open' | 'half-open'
+
+/**
+ * Client of one endpoint of an upstream service
+ */
+export interface UpstreamEndpoint<T> {
+  /** Name of the endpoint, e.g. its URL, used in logs and metrics */
+  name: string
+  /** Client calling the endpoint */
+  client: T
+}
+
+/**
+ * Status of an endpoint, as reported by the readiness check
+ */
+export interface UpstreamEndpointStatus {
+  /** Name of the endpoint */
+  name: string
+  /** State of the endpoint's circuit breaker */
+  state: CircuitState
+  /** Tip height at the last health check, null if it has not succeeded yet */
+  tipHeight: number | null
+  /** Whether the endpoint lags the best tip by more than `UPSTREAM_MAX_TIP_LAG` */
+  lagging: boolean
+}
+
+/**
+ * Options of an upstream pool
+ */
+interface UpstreamPoolOptions<T> {
+  /** Gets the tip height of an endpoint, used to health-check it */
+  getTipHeight: (client: T) => Promise<number>
+  /** Methods that must not be retried, e.g. broadcasting a transaction */
+  nonIdempotent: string[]
+}
+
+/**
+ * Endpoint with the state of its circuit breaker and last health check
+ */
+interface EndpointState<T> extends UpstreamEndpoint<T> {
+  /** State of the circuit breaker */
+  state: CircuitState
+  /** Consecutive failed calls */
+  failures: number
+  /** Time (ms) the circuit last opened */
+  openedAt: number
+  /** Tip height at the last health check */
+  tipHeight: number | null
+}
+
+/**
+ * Method call recorded to replay it on the chosen endpoint, e.g. the
+ * `script(type, payload)` call of `chronikClient.script(...).history()`
+ */
+interface Step {
+  /** Name of the method */
+  method: string
+  /** Arguments of the call */
+  args: unknown[]
+}
+
+/**
+ * Raised when every endpoint of an upstream service has an open circuit, so
+ * calls fail fast instead of waiting for timeouts
+ * @extends {Error}
+ */
+export class CircuitOpenError extends Error {
+  /** Error code, classified by the API as an unavailable upstream service */
+  public readonly code = 'ECIRCUITOPEN'
+
+  constructor(service: UpstreamService) {
+    super(`every ${service} endpoint is unavailable`)
+    this.name = 'CircuitOpenError'
+  }
+}
+
+/** Network error codes raised when an endpoint cannot be reached */
+const NETWORK_ERROR_CODES = [
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENOTFOUND',
+  'EHOSTUNREACH',
+  'ENETUNREACH',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ETIMEDOUT',
+  'ECONNABORTED',
+  'UND_ERR_CONNECT_TIMEOUT',
+]
+/** JSON-RPC error code of a node that is still starting (RPC_IN_WARMUP) */
+const RPC_IN_WARMUP_CODE = -28
+
+/**
+ * Routes the calls to an upstream service across its endpoints
+ *
+ * Calls go to the first endpoint in the configured order whose circuit is
+ * closed and whose tip is in sync, falling back to lagging endpoints. Failed
+ * idempotent calls are retried with backoff on the next endpoint, up to
+ * `UPSTREAM_MAX_ATTEMPTS` attempts. An endpoint's circuit opens after
+ * `UPSTREAM_BREAKER_THRESHOLD` consecutive failures, and calls fail fast with
+ * a CircuitOpenError while every circuit is open.
+ *
+ * Only failures of the endpoint itself count, e.g. timeouts, network errors
+ * and invalid responses; errors such as a tx not being found are returned as
+ * is. Endpoints are health-checked every `UPSTREAM_HEALTH_CHECK_INTERVAL`,
+ * which also closes the circuits of recovered endpoints.
+ */
+export class UpstreamPool<T extends object> {
+  /** Client routing each call to an available endpoint */
+  public readonly client: T
+  /** Upstream service of the endpoints */
+  private service: UpstreamService
+  /** Endpoints, in order of preference */
+  private endpoints: EndpointState<T>[]
+  /** Options of the pool */
+  private options: UpstreamPoolOptions<T>
+  /** Interval for health-checking the endpoints */
+  private timer?: NodeJS.Timeout
+
+  /**
+   * Creates a new UpstreamPool instance and starts health-checking its
+   * endpoints
+   * @param service - The upstream service
+   * @param endpoints - The endpoints, in order of preference
+   * @param options - The options of the pool
+   */
+  constructor(
+    service: UpstreamService,
+    endpoints: UpstreamEndpoint<T>[],
+    options: UpstreamPoolOptions<T>,
+  ) {
+    this.service = service
+    this.options = options
+    this.endpoints = endpoints.map(endpoint => ({
+      ...endpoint,
+      state: 'closed',
+      failures: 0,
+      openedAt: 0,
+      tipHeight: null,
+    }))
+    for (const { name } of this.endpoints) {
+      upstreamEndpointUp.set({ service, endpoint: name }, 1)
+    }
+    this.client = this.createProxy([]) as T
+
+    this.timer = setInterval(
+      () => this.checkHealth(),
+      UPSTREAM_HEALTH_CHECK_INTERVAL,
+    )
+    this.timer.unref()
+    this.checkHealth()
+  }
+
+  /**
+   * Stops health-checking the endpoints
+   */
+  public stop() {
+    clearInterval(this.timer)
+    delete this.timer
+  }
+
+  /**
+   * Gets the status of each endpoint
+   * @returns The endpoint statuses, in order of preference
+   */
+  public status(): UpstreamEndpointStatus[] {
+    const bestTip = this.getBestTip()
+    return this.endpoints.map(({ name, state, tipHeight }) => ({
+      name,
+      state,
+      tipHeight,
+      lagging: isLagging(tipHeight, bestTip),
+    }))
+  }
+
+  /**
+   * Checks the tip height of every endpoint, recording the outcome in its
+   * circuit breaker
+   */
+  public async checkHealth(): Promise<void> {
+    await Promise.all(
+      this.endpoints.map(async endpoint => {
+        try {
+          endpoint.tipHeight = await withTimeout(
+            this.options.getTipHeight(endpoint.client),
+          )
+          this.recordSuccess(endpoint)
+        } catch (e) {
+          this.recordFailure(endpoint, e)
+        }
+      }),
+    )
+  }
+
+  /**
+   * Creates a proxy whose methods replay the recorded steps on the chosen
+   * endpoint's client, then call the method
+   *
+   * Methods returning a promise are calls to the service, and are routed with
+   * failover; methods returning an object, e.g. Chronik's `script()`, return
+   * a proxy recording the call, so the nested call is routed in turn.
+   * @param steps - The calls leading to the proxied object
+   * @returns The proxy
+   */
+  private createProxy(steps: Step[]): object {
+    return new Proxy(
+      {},
+      {
+        get: (_target, property) => {
+          // the proxy is not a thenable
+          if (typeof property !== 'string' || property === 'then') {
+            return undefined
+          }
+          return (...args: unknown[]) => {
+            const call = (client: T) =>
+              invoke(replay(client, steps), property, args)
+            const [endpoint] = this.getCandidates()
+            if (!endpoint) {
+              return Promise.reject(new CircuitOpenError(this.service))
+            }
+            const result = call(endpoint.client)
+            if (result instanceof Promise) {
+              return this.execute(property, call, endpoint, result)
+            }
+            if (result !== null && typeof result === 'object') {
+              return this.createProxy([...steps, { method: property, args }])
+            }
+            return result
+          }
+        },
+      },
+    )
+  }
+
+  /**
+   * Awaits a call to an endpoint, retrying failed idempotent calls on the
+   * next available endpoint
+   * @param method - Name of the method called
+   * @param call - Calls the method on an endpoint's client
+   * @param endpoint - The endpoint of the first attempt
+   * @param attempt - The pending first attempt
+   * @returns The result of the call
+   */
+  private async execute(
+    method: string,
+    call: (client: T) => unknown,
+    endpoint: EndpointState<T>,
+    attempt: Promise<unknown>,
+  ): Promise<unknown> {
+    const retryable = !this.options.nonIdempotent.includes(method)
+    for (let attempts = 1; ; attempts++) {
+      this.acquire(endpoint)
+      try {
+        const result = await withTimeout(attempt)
+        this.recordSuccess(endpoint)
+        return result
+      } catch (e) {
+        if (!isEndpointFailure(e)) {
+          // the endpoint responded, so it is working
+          this.recordSuccess(endpoint)
+          throw e
+        }
+        this.recordFailure(endpoint, e)
+        const next = this.getCandidates(endpoint)[0]
+        if (!retryable || attempts >= UPSTREAM_MAX_ATTEMPTS || !next) {
+          throw e
+        }
+        await sleep(UPSTREAM_RETRY_DELAY * 2 ** (attempts - 1))
+        endpoint = next
+        attempt = Promise.resolve().then(() => call(next.client))
+      }
+    }
+  }
+
+  /**
+   * Gets the endpoints that may take a call, in order of preference: in-sync
+   * endpoints first, then lagging ones, in the configured order
+   * @param last - Endpoint that just failed, tried last
+   * @returns The available endpoints
+   */
+  private getCandidates(last?: EndpointState<T>): EndpointState<T>[] {
+    const now = Date.now()
+    const bestTip = this.getBestTip()
+    const available = this.endpoints.filter(
+      endpoint =>
+        endpoint.state === 'closed' ||
+        (endpoint.state === 'open' &&
+          now - endpoint.openedAt >= UPSTREAM_BREAKER_COOLDOWN),
+    )
+    const rank = (endpoint: EndpointState<T>) =>
+      (endpoint === last ? 2 : 0) +
+      (isLagging(endpoint.tipHeight, bestTip) ? 1 : 0)
+    return available.sort((a, b) => rank(a) - rank(b))
+  }
+
+  /**
+   * Lets a trial call through an open circuit whose cooldown has passed;
+   * other calls skip the endpoint until the trial completes
+   * @param endpoint - The endpoint called
+   */
+  private acquire(endpoint: EndpointState<T>) {
+    if (endpoint.state === 'open') {
+      endpoint.state = 'half-open'
+    }
+  }
+
+  /**
+   * Records a successful call, closing the endpoint's circuit
+   * @param endpoint - The endpoint called
+   */
+  private recordSuccess(endpoint: EndpointState<T>) {
+    endpoint.failures = 0
+    if (endpoint.state !== 'closed') {
+      endpoint.state = 'closed'
+      upstreamEndpointUp.set(
+        { service: this.service, endpoint: endpoint.name },
+        1,
+      )
+      log.info('endpoint recovered', {
+        service: this.service,
+        endpoint: endpoint.name,
+      })
+    }
+  }
+
+  /**
+   * Records a failed call, opening the endpoint's circuit after
+   * `UPSTREAM_BREAKER_THRESHOLD` consecutive failures or a failed trial
+   * @param endpoint - The endpoint called
+   * @param error - The error raised by the call
+   */
+  private recordFailure(endpoint: EndpointState<T>, error: unknown) {
+    endpoint.failures++
+    if (
+      endpoint.state === 'half-open' ||
+      (endpoint.state === 'closed' &&
+        endpoint.failures >= UPSTREAM_BREAKER_THRESHOLD)
+    ) {
+      if (endpoint.state === 'closed') {
+        log.warn('endpoint unavailable', {
+          service: this.service,
+          endpoint: endpoint.name,
+          error: (error as Error)?.message ?? String(error),
+        })
+      }
+      endpoint.state = 'open'
+      endpoint.openedAt = Date.now()
+      upstreamEndpointUp.set(
+        { service: this.service, endpoint: endpoint.name },
+        0,
+      )
+    }
+  }
+
+  /**
+   * Gets the highest tip height reported by the endpoints
+   * @returns The best tip height, or null if no health check has succeeded
+   */
+  private getBestTip(): number | null {
+    const heights = this.endpoints
+      .map(({ tipHeight }) => tipHeight)
+      .filter(height => height !== null)
+    return heights.length > 0 ? Math.max(...heights) : null
+  }
+}
+
+/**
+ * Whether an endpoint's tip lags the best tip by more than
+ * `UPSTREAM_MAX_TIP_LAG` blocks
+ * @param tipHeight - The endpoint's tip height
+ * @param bestTip - The best tip height of all endpoints
+ * @returns True if the endpoint is lagging
+ */
+function isLagging(tipHeight: number | null, bestTip: number | null): boolean {
+  return (
+    tipHeight !== null &&
+    bestTip !== null &&
+    tipHeight < bestTip - UPSTREAM_MAX_TIP_LAG
+  )
+}
+
+/**
+ * Whether an error is a failure of the endpoint itself, rather than an error
+ * response to the call, e.g. a tx that is not found
+ * @param error - The error raised by the call
+ * @returns True if the call should be retried on another endpoint
+ */
+function isEndpointFailure(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false
+  }
+  const code =
+    (error as NodeJS.ErrnoException).code ??
+    (error.cause as NodeJS.ErrnoException | undefined)?.code
+  if (
+    error.name === 'TimeoutError' ||
+    (code && NETWORK_ERROR_CODES.includes(code)) ||
+    error.message === 'fetch failed' ||
+    error.message.startsWith('Error connecting to known Chronik') ||
+    // the RPC node or Chronik returned a non-JSON or non-protobuf response,
+    // e.g. an error page from a proxy
+    error instanceof SyntaxError ||
+    error instanceof RangeError
+  ) {
+    return true
+  }
+  const chronikError = error.message.match(/^Failed getting \S+ \(([^)]*)\)/)
+  if (chronikError) {
+    const errorCode = chronikError[1]!
+    return !(
+      errorCode.includes('not-found') ||
+      errorCode.startsWith('invalid') ||
+      errorCode.startsWith('bad')
+    )
+  }
+  return error.message.endsWith(`(code: ${RPC_IN_WARMUP_CODE})`)
+}
+
+/**
+ * Rejects with a TimeoutError if a call takes longer than `UPSTREAM_TIMEOUT`
+ * @param promise - The pending call
+ * @returns The result of the call
+ */
+async function withTimeout<R>(promise: Promise<R>): Promise<R> {
+  let timer: NodeJS.Timeout | undefined
+  try {
+    return await Promise.race([
+      promise,
+      new Promise<never>((_resolve, reject) => {
+        timer = setTimeout(() => {
+          const error = new Error('upstream call timed out')
+          error.name = 'TimeoutError'
+          reject(error)
+        }, UPSTREAM_TIMEOUT)
+      }),
+    ])
+  } finally {
+    clearTimeout(timer)
+  }
+}
+
+/**
+ * Replays recorded method calls on a client
+ * @param client - The client
+ * @param steps - The calls to replay
+ * @returns The object returned by the last call
+ */
+function replay(client: object, steps: Step[]): object {
+  return steps.reduce<object>(
+    (target, { method, args }) => invoke(target, method, args) as object,
+    client,
+  )
+}
+
+/**
+ * Calls a method of an object
+ * @param target - The object
+ * @param method - Name of the method
+ * @param args - Arguments of the call
+ * @returns The result of the call
+ */
+function invoke(target: object, method: string, args: unknown[]): unknown {
+  const fn = Reflect.get(target, method) as (...args: unknown[]) => unknown
+  return fn.apply(target, args)
+}
@@ -1,8 +1,16 @@
 import os from 'node:os'
+import type { RateLimitPolicy } from './types.js'
 /**
  * External API configuration
  */
 export const NODE_GEOIP_URL = 'https://api.sefinek.net/api/v2/geoip'
+/**
+ * GeoIP configuration
+ */
+export const GEOIP_DEFAULT_DATABASE_PATH = '/usr/share/GeoIP/GeoLite2-City.mmdb'
+export const GEOIP_CACHE_TTL = 86_400_000 // time (ms) a peer location is cached
+export const GEOIP_CACHE_MAX_ENTRIES = 10_000 // max peer locations cached
+export const GEOIP_LOOKUP_CONCURRENCY = 8 // max concurrent lookups per request
 /**
  * Extension configuration
  */
@@ -10,11 +18,68 @@ export const EXT_INSTANCE_ID_DIFFICULTY = 4
 /**
  * API configuration
  */
-export const API_SERVER_PORT = 10655
+export const API_DEFAULT_LISTEN_PORT = 10655 // port the API listens on unless API_LISTEN_PORT is set
+export const API_BASE_PATH = '/api/v1'
 export const API_STATS_RESULT_COUNT = 5
 export const API_WALLET_RESULT_COUNT = 10
+export const API_WALLET_MAX_ADDRESSES = 20 // max addresses per balances request
+export const API_WALLET_GAP_LIMIT = 20 // default consecutive unused addresses before xpub scanning stops
+export const API_WALLET_MAX_GAP_LIMIT = 100 // max gap limit accepted for xpub scanning
+export const API_WALLET_MAX_DERIVED = 1_000 // max addresses derived per xpub chain
+export const API_TX_MAX_SIZE = 100_000 // max size (bytes) of a broadcast transaction
+export const API_BODY_MAX_SIZE = '256kb' // max size of JSON request bodies; fits a hex-encoded max-size tx
+export const API_DOCS_SCRIPT_URL =
+  'https://cdn.redoc.ly/redoc/v2.1.5/bundles/redoc.standalone.js' // Redoc bundle rendering the API docs page
 export const API_SEARCH_RESULT_COUNT = 5
+export const API_UPSTREAM_CONCURRENCY = 10 // max concurrent Chronik calls made for a single request
+export const API_EXPORT_PAGE_SIZE = 200 // txs fetched from Chronik per page of an address history export
+export const API_EXPORT_TIME_MARGIN = 7_200 // time (s) past `to` a tx must be first seen before an address history export stops; block timestamps can run ahead of first-seen order
 export const API_AUTH_CACHE_ENTRY_TTL = 420 // blocks over 1 day time span
+export const API_AUTH_CACHE_TTL = 86_400_000 // time (ms) a registered instance is cached, should no blocks arrive
+export const API_AUTH_CACHE_MAX_ENTRIES = 10_000 // max registered instances cached
+export const API_STREAM_MAX_SUBSCRIPTIONS = 20 // addresses + RANK targets per client
+export const API_STREAM_HEARTBEAT_INTERVAL = 30_000 // time (ms) between keep-alive comments
+export const API_STREAM_MAX_CLIENTS = 1_000 // open event streams per process
+export const API_STREAM_MAX_CLIENTS_PER_IP = 10 // open event streams per client IP and process
+export const API_STREAM_MAX_BUFFERED_BYTES = 1_048_576 // 1 MiB of unsent events before a slow client is disconnected
+export const API_READY_CHECK_TIMEOUT = 3_000 // max time (ms) for each readiness dependency check
+export const API_RANK_RESULT_COUNT = 10 // default number of profiles or votes returned by RANK routes
+export const API_RANK_MAX_RESULT_COUNT = 40 // max number of profiles or votes returned by RANK routes
+export const API_CACHE_MAX_BYTES = 67_108_864 // 64 MiB of cached upstream responses per process
+export const API_RATE_LIMIT_POLICIES: RateLimitPolicy[] = [
+  { path: '/explorer/overview', factor: 0.1 }, // fans out to GeoIP lookups
+  { path: '/explorer/chain-info', factor: 5 }, // cheap, polled by front-ends
+  { path: '/explorer/address/:address/export', factor: 0.05 }, // streams the full history
+  { path: '/wallet/xpub', factor: 0.1 }, // derives and looks up many addresses
+  { path: '/tx/broadcast', factor: 0.1 },
+  { path: '/extension/register', factor: 0.01 },
+]
+export const API_CACHE_MIN_CONFIRMATIONS = 10 // confirmations before a block or tx is cached indefinitely
+export const API_CACHE_TIP_MAX_AGE = 10 // time (s) clients may cache responses that change with the tip
+export const API_CACHE_TIP_ENTRY_TTL = 120_000 // time (ms) a tip-dependent response is cached, about one block interval
+/**
+ * Network peer configuration
+ */
+export const PEER_SNAPSHOT_INTERVAL = 600_000 // time (ms) between snapshots of the node's peers
+export const PEER_SNAPSHOT_RETENTION = 31_449_600 // age (s) after which peer snapshots are pruned; 364 days
+export const PEER_DEFAULT_SINCE = 86_400 // age (s) of the oldest peers returned by default
+/**
+ * Upstream (Chronik and RPC) configuration
+ */
+export const UPSTREAM_TIMEOUT = 10_000 // max time (ms) for each attempt of an upstream call
+export const UPSTREAM_MAX_ATTEMPTS = 3 // attempts of idempotent upstream calls, across endpoints
+export const UPSTREAM_RETRY_DELAY = 200 // time (ms) before the first retry, doubled for each further retry
+export const UPSTREAM_BREAKER_THRESHOLD = 5 // consecutive failures before an endpoint's circuit opens
+export const UPSTREAM_BREAKER_COOLDOWN = 30_000 // time (ms) before an open circuit lets a trial call through
+export const UPSTREAM_HEALTH_CHECK_INTERVAL = 15_000 // time (ms) between endpoint tip height checks
+export const UPSTREAM_MAX_TIP_LAG = 2 // blocks an endpoint may lag the best tip before it is only a fallback
+/**
+ * Cluster configuration
+ */
+export const CLUSTER_WORKER_RESTART_DELAY = 1_000 // time (ms) before restarting a crashed worker
+export const CLUSTER_SHUTDOWN_TIMEOUT = 5_000 // time (ms) beyond the API shutdown timeout before workers are killed
+export const CLUSTER_METRICS_TIMEOUT = 5_000 // time (ms) the primary waits for a worker's metrics before aggregating without them
+export const CLUSTER_STORE_REQUEST_TIMEOUT = 10_000 // time (ms) a worker waits for the primary's store to respond, longer than metrics aggregation
 /**
  * NNG configuration
  */
@@ -26,6 +91,14 @@ export const NNG_SOCKET_RECONN = 300 // time (ms) between reconnect attempts
 export const NNG_SOCKET_MAXRECONN = 3_000 // max time (ms) before giving up reconnect
 export const NNG_REQUEST_TIMEOUT_LENGTH = 2_000 // max time (ms) before aborting a Socket.send()
 export const NNG_MESSAGE_BATCH_SIZE = 10 // number of messages to process in each batch
+export const NNG_MAX_SILENCE = 1_800_000 // time (ms) without a block message before the pub socket is reported down, 15 block intervals
+/**
+ * Indexer configuration
+ */
+export const IDX_BLOCK_BATCH_SIZE = 20 // blocks fetched from Chronik and stored at once while catching up
+export const IDX_TX_TIMEOUT = 120_000 // max time (ms) of the rewind and chart transactions, which recompute every chart series
+export const IDX_MEMPOOL_SYNC_RETRY_DELAY = 5_000 // time (ms) before retrying a failed mempool sync on startup
+export const IDX_TX_MAX_WAIT = 10_000 // max time (ms) to wait for a database connection to start the rewind and chart transactions
 /**
  * Error codes
  */
@@ -37,5 +110,8 @@ export enum ERR {
   IDX_BLOCKS_REWIND,
   IDX_BLOCKS_SYNC,
   IDX_MEMPOOL_SYNC,
+  API_SHUTDOWN_TIMEOUT,
+  SHUTDOWN_BACKENDS,
+  CONFIG_INVALID,
   UNHANDLED_EXCEPTION = 255,
 }
@@ -1,13 +1,7 @@
+import * as Bitcore from 'xpi-ts/lib/bitcore'
 import { EXT_INSTANCE_ID_DIFFICULTY } from './constants.js'
-
-export type LogEntry = [string, string]
-export const log = function (entries: LogEntry[]) {
-  console.log(
-    `${new Date().toISOString()} ${entries
-      .map(entry => entry.join('='))
-      .join(' ')}`,
-  )
-}
+import { logger } from './logger.js'
+import type { Tx } from 'chronik-client'
 
 /**
  * Convert an iterable to an async iterable
@@ -20,26 +14,112 @@ export async function* toAsyncIterable<T>(collection: Iterable<T>) {
   }
 }
 /**
- * Wraps a function in a try-catch block and returns an object with an error field if an error is thrown
- * @param fn Function to wrap
- * @returns Object with error field (null if successful, error message if failed)
+ * Maps items with an async function, running at most `concurrency` calls at
+ * once
+ * @param items - The items to map
+ * @param concurrency - Max number of calls in flight
+ * @param fn - The async function to call for each item
+ * @returns The results, in the order of the items
  */
-async function tryCatch<T, P extends any[], E = Error>(
-  fn: (...args: P | []) => Promise<T>,
-  args?: P,
-  errorHandler?: (error: E) => any,
-): Promise<any> {
-  try {
-    return args ? await fn(...args) : await fn()
-  } catch (error) {
-    if (errorHandler) {
-      return errorHandler(error as E)
+export async function mapConcurrent<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results = new Array<R>(items.length)
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++
+      results[index] = await fn(items[index]!, index)
+    }
+  }
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, items.length) }, worker),
+  )
+  return results
+}
+
+/**
+ * Get the address of the miner that was paid by a coinbase transaction
+ * @param coinbase - The coinbase transaction of a block
+ * @returns The XAddress of the miner, or null if it could not be determined
+ */
+export function getMinerAddress(coinbase: Tx): string | null {
+  // output 0 is the OP_RETURN burn, output 1 pays the miner
+  const output = coinbase.outputs[1]
+  if (!output) {
+    return null
+  }
+  const address = Bitcore.Script.fromHex(output.outputScript).toAddress()
+  return address ? address.toXAddress() : null
+}
+
+/** Private, loopback and link-local IPv4 ranges */
+const PRIVATE_IPV4 =
+  /^(127\.|10\.|192\.168\.|172\.(1[6-9]|2[0-9]|3[0-1])\.|169\.254\.)/
+/** Loopback, unique local and link-local IPv6 ranges */
+const PRIVATE_IPV6 =
+  /^(::1$|[fF][cCdD][0-9a-fA-F]{2}:|[fF][eE][89aAbB][0-9a-fA-F]:)/
+
+/**
+ * Gets the IP address of a peer without its port, if it is publicly routable
+ * @param addr - The peer address from `getpeerinfo`, e.g. `1.2.3.4:10605` or `[2001:db8::1]:10605`
+ * @returns The IP address, or null for private and loopback addresses
+ */
+export function toPublicPeerAddress(addr: string): string | null {
+  const bracketed = addr.match(/^\[(.+)\](?::\d{1,5})?$/)
+  const ip = bracketed
+    ? bracketed[1]!
+    : addr.split(':').length === 2
+      ? addr.replace(/:\d{1,5}$/, '')
+      : addr
+  if (!ip || PRIVATE_IPV4.test(ip) || PRIVATE_IPV6.test(ip)) {
+    return null
+  }
+  return ip
+}
+
+/**
+ * Calculates the sum of satoshis burned in OP_RETURN outputs
+ * @param tx - The transaction to analyze
+ * @returns The total amount of satoshis burned in OP_RETURN outputs
+ */
+export function getSumBurnedSats(tx: Tx): bigint {
+  return tx.outputs.reduce((acc, output) => {
+    const value = BigInt(output.value)
+    // 0x6a = OP_RETURN
+    if (output.outputScript.startsWith('6a') && value > BigInt(0)) {
+      return acc + value
     }
-    throw error
+    return acc
+  }, BigInt(0))
+}
+
+/**
+ * Convert a compact target (nBits) to a difficulty relative to the
+ * minimum difficulty target (0x1d00ffff)
+ * @param nBits - The compact target from the block header
+ * @returns The difficulty, truncated to an integer
+ */
+export function toDifficulty(nBits: number): bigint {
+  const exponent = BigInt(nBits >>> 24)
+  const mantissa = BigInt(nBits & 0x007fffff)
+  const target = mantissa * 2n ** (8n * (exponent - 3n))
+  if (target === 0n) {
+    return 0n
   }
+  return (0xffffn * 2n ** (8n * (0x1dn - 3n))) / target
 }
 
-async function isValidInstanceId({
+/**
+ * Checks the proof-of-work of a browser extension instance ID, which must be
+ * the SHA-256 of `runtimeId:startTime:nonce` with `EXT_INSTANCE_ID_DIFFICULTY`
+ * leading zeros
+ * @param instance - The instance ID and the values it was computed from
+ * @returns True if the instance ID is valid
+ */
+export async function isValidInstanceId({
   instanceId,
   runtimeId,
   startTime,
@@ -65,10 +145,7 @@ async function isValidInstanceId({
         String().padStart(EXT_INSTANCE_ID_DIFFICULTY, '0')
     )
   } catch (e) {
-    log([
-      ['api.error', 'isValidInstanceId'],
-      ['error', (e as Error).message],
-    ])
+    logger.error('isValidInstanceId failed', { error: (e as Error).message })
     return false
   }
 }
@@ -0,0 +1,125 @@
+import config from '../config.js'
+import type { LogFormat, LogLevel } from './types.js'
+
+/**
+ * Structured fields attached to a log line
+ */
+export type LogFields = Record<string, unknown>
+
+/** Severity of each log level; lines below the configured level are dropped */
+const LOG_LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+}
+
+/**
+ * Leveled logger writing one JSON or logfmt line per entry to stdout
+ *
+ * Child loggers inherit the level and format and add their bound fields, e.g.
+ * the component or request ID, to every line they write.
+ */
+export class Logger {
+  /** Minimum level of the lines written */
+  private level: LogLevel
+  /** Output format of the lines */
+  private format: LogFormat
+  /** Fields added to every line */
+  private bindings: LogFields
+
+  /**
+   * Creates a new Logger instance
+   * @param level - Minimum level of the lines written
+   * @param format - Output format, `json` or `logfmt`
+   * @param bindings - Fields added to every line
+   */
+  constructor(level: LogLevel, format: LogFormat, bindings: LogFields = {}) {
+    this.level = level
+    this.format = format
+    this.bindings = bindings
+  }
+
+  /**
+   * Creates a child logger that adds the given fields to every line
+   * @param bindings - Fields to add, merged with this logger's fields
+   * @returns The child logger
+   */
+  public child(bindings: LogFields): Logger {
+    return new Logger(this.level, this.format, {
+      ...this.bindings,
+      ...bindings,
+    })
+  }
+
+  public debug(msg: string, fields?: LogFields) {
+    this.write('debug', msg, fields)
+  }
+
+  public info(msg: string, fields?: LogFields) {
+    this.write('info', msg, fields)
+  }
+
+  public warn(msg: string, fields?: LogFields) {
+    this.write('warn', msg, fields)
+  }
+
+  public error(msg: string, fields?: LogFields) {
+    this.write('error', msg, fields)
+  }
+
+  /**
+   * Writes a line if its level is at or above the configured level
+   * @param level - Level of the line
+   * @param msg - Message of the line
+   * @param fields - Fields of the line, added after the bound fields
+   */
+  private write(level: LogLevel, msg: string, fields?: LogFields) {
+    if (LOG_LEVELS[level] < LOG_LEVELS[this.level]) {
+      return
+    }
+    const entry: LogFields = {
+      time: new Date().toISOString(),
+      level,
+      ...this.bindings,
+      msg,
+      ...fields,
+    }
+    process.stdout.write(
+      `${this.format === 'json' ? toJSON(entry) : toLogfmt(entry)}\n`,
+    )
+  }
+}
+
+/**
+ * Serializes a log entry as JSON, with bigints as strings
+ * @param entry - The log entry
+ * @returns The JSON line
+ */
+function toJSON(entry: LogFields): string {
+  return JSON.stringify(entry, (_key, value) =>
+    typeof value === 'bigint' ? value.toString() : value,
+  )
+}
+
+/**
+ * Serializes a log entry as logfmt `key=value` pairs, quoting values that
+ * contain spaces, quotes or equals signs
+ * @param entry - The log entry
+ * @returns The logfmt line
+ */
+function toLogfmt(entry: LogFields): string {
+  return Object.entries(entry)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => {
+      const str =
+        typeof value === 'object' && value !== null
+          ? toJSON(value as LogFields)
+          : String(value)
+      return `${key}=${/[\s"=]/.test(str) || str === '' ? JSON.stringify(str) : str}`
+    })
+    .join(' ')
+}
+
+/** Root logger, configured from the environment */
+export const logger = new Logger(config.log.level, config.log.format)
@@ -10,15 +10,40 @@ export interface APIConfig {
   rateLimitWindowMinutes: number
   /** Rate limit: maximum requests per window per IP */
   rateLimitMaxRequests: number
+  /** Rate limit: maximum requests per window per authenticated extension instance */
+  rateLimitMaxRequestsAuthenticated: number
+  /** Rate limit: client IPs and CIDRs that are never rate limited */
+  rateLimitAllowlist: string[]
+  /** Express `trust proxy` setting, used to find the client IP behind proxies */
+  trustProxy: boolean | number | string
+  /** Number of cluster workers; 1 (default) runs a single process, 0 forks one per CPU */
+  workers: number
+  /** Max time in seconds to wait for in-flight requests when shutting down */
+  shutdownTimeoutSeconds: number
+  /** Max number of blocks Chronik's tip may lag the node's tip while ready */
+  readyMaxBlockLag: number
+}
+
+/**
+ * Rate limit applied to a route instead of the default rate limit
+ */
+export interface RateLimitPolicy {
+  /** Path of the route, relative to the API base path; `:param` segments match any value */
+  path: string
+  /** Multiplier applied to the default limits, e.g. 0.1 for a tenth */
+  factor: number
 }
 
 /**
  * Configuration options for JSON-RPC connection
  */
 export interface JSONRPCConfig {
-  /** The hostname or IP address of the JSON-RPC server */
-  address: string
-  /** The port number of the JSON-RPC server */
+  /**
+   * The JSON-RPC servers, in order of preference, as hostnames or IP
+   * addresses with an optional port, e.g. `node1:10604`
+   */
+  addresses: string[]
+  /** The port number of the JSON-RPC servers without a port */
   port: number
   /** The username for JSON-RPC authentication */
   user: string
@@ -30,6 +55,53 @@ export interface JSONRPCConfig {
  * Configuration options for Chronik indexer connection
  */
 export interface ChronikConfig {
-  /** The URL of the Chronik indexer service */
-  url: string
+  /** The URLs of the Chronik indexer services, in order of preference */
+  urls: string[]
+}
+
+/**
+ * Configuration options for the NNG sockets exposed by the Lotus node
+ */
+export interface NNGConfig {
+  /** Path to the NNG pub socket, used to follow blocks and mempool activity */
+  pubSocketPath: string
+  /** Path to the NNG rpc socket */
+  rpcSocketPath: string
+}
+
+/**
+ * Source of the geolocation of peer IPs
+ */
+export type GeoIPProviderName = 'remote' | 'mmdb'
+
+/**
+ * Configuration options for peer IP geolocation
+ */
+export interface GeoIPConfig {
+  /** `mmdb` reads a local MaxMind-style database, `remote` queries `NODE_GEOIP_URL` */
+  provider: GeoIPProviderName
+  /** Path to the MaxMind-style City database, used by the `mmdb` provider */
+  databasePath: string
+  /** Max time (ms) for each lookup */
+  timeoutMs: number
+}
+
+/**
+ * Minimum level of the log lines written
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error'
+
+/**
+ * Output format of the log lines
+ */
+export type LogFormat = 'logfmt' | 'json'
+
+/**
+ * Configuration options for logging
+ */
+export interface LogConfig {
+  /** Minimum level of the log lines written */
+  level: LogLevel
+  /** Output format of the log lines */
+  format: LogFormat
 }
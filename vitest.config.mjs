@@ -0,0 +1,12 @@
+// @ts-check
+
+import { defineConfig } from 'vitest/config'
+
+export default defineConfig({
+  test: {
+    env: { LOG_LEVEL: 'error' },
+    // xpi-ts publishes ESM with extensionless imports, which only resolve
+    // when transformed by Vite
+    server: { deps: { inline: ['xpi-ts'] } },
+  },
+})